@@ -0,0 +1,64 @@
+/// Seal access policy: decryption rights for a list of addresses.
+///
+/// Key IDs under this policy are `[allowlist object ID][nonce]`, so one
+/// allowlist can cover any number of encrypted artifacts. The holder of the
+/// allowlist's `Cap` adds and removes grantees; key servers call
+/// `seal_approve` to check the requester is currently on the list.
+module opentruth::allowlist;
+
+use opentruth::utils::is_prefix;
+
+const EInvalidCap: u64 = 0;
+const ENoAccess: u64 = 1;
+const EDuplicate: u64 = 2;
+const ENotInAllowlist: u64 = 3;
+
+public struct Allowlist has key {
+    id: UID,
+    list: vector<address>,
+}
+
+/// Admin capability for one allowlist
+public struct Cap has key, store {
+    id: UID,
+    allowlist_id: ID,
+}
+
+/// Create a shared allowlist containing `grantees` and give the sender its Cap
+entry fun create_allowlist_entry(grantees: vector<address>, ctx: &mut TxContext) {
+    let mut allowlist = Allowlist { id: object::new(ctx), list: vector[] };
+    let cap = Cap { id: object::new(ctx), allowlist_id: object::id(&allowlist) };
+
+    grantees.do!(|account| {
+        if (!allowlist.list.contains(&account)) allowlist.list.push_back(account);
+    });
+
+    transfer::share_object(allowlist);
+    transfer::transfer(cap, ctx.sender());
+}
+
+public fun add(allowlist: &mut Allowlist, cap: &Cap, account: address) {
+    assert!(cap.allowlist_id == object::id(allowlist), EInvalidCap);
+    assert!(!allowlist.list.contains(&account), EDuplicate);
+    allowlist.list.push_back(account);
+}
+
+public fun remove(allowlist: &mut Allowlist, cap: &Cap, account: address) {
+    assert!(cap.allowlist_id == object::id(allowlist), EInvalidCap);
+    let (found, index) = allowlist.list.index_of(&account);
+    assert!(found, ENotInAllowlist);
+    allowlist.list.remove(index);
+}
+
+/// Key ID prefix for artifacts encrypted under this allowlist
+public fun namespace(allowlist: &Allowlist): vector<u8> {
+    allowlist.id.to_bytes()
+}
+
+fun approve_internal(caller: address, id: vector<u8>, allowlist: &Allowlist): bool {
+    is_prefix(allowlist.namespace(), id) && allowlist.list.contains(&caller)
+}
+
+entry fun seal_approve(id: vector<u8>, allowlist: &Allowlist, ctx: &TxContext) {
+    assert!(approve_internal(ctx.sender(), id, allowlist), ENoAccess);
+}
@@ -0,0 +1,14 @@
+/// Seal access policy: decryption rights for a single owner.
+///
+/// Key IDs under this policy are `[owner address][nonce]`. Key servers call
+/// `seal_approve` to check the requester is the address the key ID names.
+module opentruth::owner;
+
+use sui::bcs;
+use opentruth::utils::is_prefix;
+
+const ENoAccess: u64 = 1;
+
+entry fun seal_approve(id: vector<u8>, ctx: &TxContext) {
+    assert!(is_prefix(bcs::to_bytes(&ctx.sender()), id), ENoAccess);
+}
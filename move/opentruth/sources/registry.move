@@ -0,0 +1,149 @@
+/// On-chain anchors and revocations for OpenTruth certificates.
+///
+/// An anchor records that `author` published the certificate stored at
+/// `certificate_blob_id` (certifying `artifact_hash`) no later than
+/// `timestamp_ms`. A revocation points at a signed revocation record stored
+/// on Walrus. Anyone may anchor or revoke any blob ID, so entries are keyed by
+/// (blob ID, sender) and verifiers only read the one for the certificate's
+/// signer; other senders cannot crowd it out or make it costly to find.
+module opentruth::registry;
+
+use std::string::String;
+use sui::clock::Clock;
+use sui::event;
+use sui::table::{Self, Table};
+
+public struct Anchor has copy, drop, store {
+    certificate_blob_id: String,
+    artifact_hash: String,
+    author: address,
+    timestamp_ms: u64,
+}
+
+public struct Revocation has copy, drop, store {
+    certificate_blob_id: String,
+    revocation_blob_id: String,
+    author: address,
+    timestamp_ms: u64,
+}
+
+/// Table key: one anchor and one revocation per certificate and sender
+public struct EntryKey has copy, drop, store {
+    certificate_blob_id: String,
+    author: address,
+}
+
+/// Shared registry: (certificate blob ID, sender) -> anchor / revocation
+public struct Registry has key {
+    id: UID,
+    anchors: Table<EntryKey, Anchor>,
+    revocations: Table<EntryKey, Revocation>,
+}
+
+public struct CertificateAnchored has copy, drop {
+    certificate_blob_id: String,
+    artifact_hash: String,
+    author: address,
+    timestamp_ms: u64,
+}
+
+public struct CertificateRevoked has copy, drop {
+    certificate_blob_id: String,
+    revocation_blob_id: String,
+    author: address,
+    timestamp_ms: u64,
+}
+
+fun init(ctx: &mut TxContext) {
+    transfer::share_object(Registry {
+        id: object::new(ctx),
+        anchors: table::new(ctx),
+        revocations: table::new(ctx),
+    });
+}
+
+/// Record a certificate anchor for the sender at the current clock time
+/// The first anchor is kept: anchoring again cannot move it later.
+public fun anchor(
+    registry: &mut Registry,
+    certificate_blob_id: String,
+    artifact_hash: String,
+    clock: &Clock,
+    ctx: &TxContext,
+) {
+    let key = EntryKey { certificate_blob_id, author: ctx.sender() };
+    if (registry.anchors.contains(key)) return;
+
+    let anchor = Anchor {
+        certificate_blob_id,
+        artifact_hash,
+        author: ctx.sender(),
+        timestamp_ms: clock.timestamp_ms(),
+    };
+    registry.anchors.add(key, anchor);
+
+    event::emit(CertificateAnchored {
+        certificate_blob_id,
+        artifact_hash,
+        author: anchor.author,
+        timestamp_ms: anchor.timestamp_ms,
+    });
+}
+
+/// Point a certificate at the sender's signed revocation record on Walrus
+/// Revoking again replaces the sender's earlier pointer.
+public fun revoke(
+    registry: &mut Registry,
+    certificate_blob_id: String,
+    revocation_blob_id: String,
+    clock: &Clock,
+    ctx: &TxContext,
+) {
+    let key = EntryKey { certificate_blob_id, author: ctx.sender() };
+    let revocation = Revocation {
+        certificate_blob_id,
+        revocation_blob_id,
+        author: ctx.sender(),
+        timestamp_ms: clock.timestamp_ms(),
+    };
+
+    if (registry.revocations.contains(key)) {
+        registry.revocations.remove(key);
+    };
+    registry.revocations.add(key, revocation);
+
+    event::emit(CertificateRevoked {
+        certificate_blob_id,
+        revocation_blob_id,
+        author: revocation.author,
+        timestamp_ms: revocation.timestamp_ms,
+    });
+}
+
+public fun anchor_of(registry: &Registry, certificate_blob_id: String, author: address): Option<Anchor> {
+    let key = EntryKey { certificate_blob_id, author };
+    if (registry.anchors.contains(key)) {
+        option::some(*registry.anchors.borrow(key))
+    } else {
+        option::none()
+    }
+}
+
+public fun revocation_of(registry: &Registry, certificate_blob_id: String, author: address): Option<Revocation> {
+    let key = EntryKey { certificate_blob_id, author };
+    if (registry.revocations.contains(key)) {
+        option::some(*registry.revocations.borrow(key))
+    } else {
+        option::none()
+    }
+}
+
+public fun revocation_blob_id(revocation: &Revocation): String { revocation.revocation_blob_id }
+
+public fun revocation_author(revocation: &Revocation): address { revocation.author }
+
+public fun author(anchor: &Anchor): address { anchor.author }
+
+public fun artifact_hash(anchor: &Anchor): String { anchor.artifact_hash }
+
+public fun timestamp_ms(anchor: &Anchor): u64 { anchor.timestamp_ms }
@@ -0,0 +1,20 @@
+/// Seal access policy: anyone may decrypt once an unlock time has passed.
+///
+/// Key IDs under this policy are `[BCS u64 unlock time in ms][nonce]`. Key
+/// servers call `seal_approve`, which compares the embedded time with the Sui
+/// clock, so an embargoed artifact stays sealed until its publication date.
+module opentruth::timelock;
+
+use sui::bcs;
+use sui::clock::Clock;
+
+const ENoAccess: u64 = 1;
+
+/// Unlock time embedded in a key ID
+public fun unlock_time_ms(id: vector<u8>): u64 {
+    bcs::new(id).peel_u64()
+}
+
+entry fun seal_approve(id: vector<u8>, clock: &Clock) {
+    assert!(clock.timestamp_ms() >= unlock_time_ms(id), ENoAccess);
+}
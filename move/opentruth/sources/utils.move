@@ -0,0 +1,13 @@
+/// Helpers shared by the Seal policy modules.
+module opentruth::utils;
+
+/// Whether `prefix` is a prefix of `word`
+public(package) fun is_prefix(prefix: vector<u8>, word: vector<u8>): bool {
+    if (prefix.length() > word.length()) return false;
+    let mut i = 0;
+    while (i < prefix.length()) {
+        if (prefix[i] != word[i]) return false;
+        i = i + 1;
+    };
+    true
+}
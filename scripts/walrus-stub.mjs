@@ -0,0 +1,120 @@
+/**
+ * Local Walrus publisher + aggregator stub for testing uploads and reads
+ *
+ * Stores blobs in memory and can inject failures, so retries, backoff and
+ * failover can be exercised without the real network:
+ *
+ *   pnpm walrus:stub --port 31415 --fail-first 2
+ *   pnpm walrus:stub --port 31416 --fail-rate 0.3 --delay 2000
+ *
+ * Then point the app at it, e.g.
+ *   VITE_WALRUS_PUBLISHER_URL=http://localhost:31415,http://localhost:31416
+ *   VITE_WALRUS_AGGREGATOR_URL=http://localhost:31415
+ *
+ * Options:
+ *   --port <n>          Port to listen on (default 31415)
+ *   --fail-first <n>    Fail the first n requests
+ *   --fail-rate <0..1>  Fail this fraction of the remaining requests
+ *   --fail-status <n>   Status code for injected failures (default 503)
+ *   --retry-after <s>   Send a Retry-After header with injected failures
+ *   --delay <ms>        Wait before answering every request
+ */
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+function readArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    args[argv[i].replace(/^--/, "")] = argv[i + 1];
+  }
+  return args;
+}
+
+const args = readArgs(process.argv.slice(2));
+const port = Number(args.port ?? 31415);
+const failStatus = Number(args["fail-status"] ?? 503);
+const failRate = Number(args["fail-rate"] ?? 0);
+const delayMs = Number(args.delay ?? 0);
+const retryAfter = args["retry-after"];
+let failFirst = Number(args["fail-first"] ?? 0);
+
+const blobs = new Map();
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, HEAD, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Range",
+  "Access-Control-Expose-Headers": "Retry-After",
+};
+
+function blobIdFor(data) {
+  return createHash("sha256").update(data).digest("base64url");
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+  const log = (status) => console.log(`${req.method} ${url.pathname} -> ${status}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  if (failFirst > 0 || Math.random() < failRate) {
+    failFirst = Math.max(0, failFirst - 1);
+    await readBody(req);
+    log(failStatus);
+    res.writeHead(failStatus, { ...CORS_HEADERS, ...(retryAfter && { "Retry-After": retryAfter }) });
+    res.end("Injected failure");
+    return;
+  }
+
+  if (req.method === "PUT" && url.pathname === "/v1/store") {
+    const data = await readBody(req);
+    const blobId = blobIdFor(data);
+    const exists = blobs.has(blobId);
+    blobs.set(blobId, { data, contentType: req.headers["content-type"] ?? "application/octet-stream" });
+    log(200);
+
+    const epochs = Number(url.searchParams.get("epochs") ?? 1);
+    const body = exists
+      ? { alreadyCertified: { blobId, endEpoch: epochs } }
+      : { newlyCreated: { blobObject: { blobId, size: data.length, storage: { endEpoch: epochs } } } };
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+    return;
+  }
+
+  const match = url.pathname.match(/^\/v1\/([^/]+)$/);
+  if ((req.method === "GET" || req.method === "HEAD") && match) {
+    const blob = blobs.get(match[1]);
+    if (!blob) {
+      log(404);
+      res.writeHead(404, CORS_HEADERS).end("Blob not found");
+      return;
+    }
+    log(200);
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": blob.contentType, "Content-Length": blob.data.length });
+    res.end(req.method === "HEAD" ? undefined : blob.data);
+    return;
+  }
+
+  log(404);
+  res.writeHead(404, CORS_HEADERS).end("Not found");
+});
+
+server.listen(port, () => {
+  console.log(`Walrus stub listening on http://localhost:${port}`);
+});
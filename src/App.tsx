@@ -5,6 +5,8 @@ import { HomePage } from './pages/HomePage';
 import { UploadPage } from './pages/UploadPage';
 import { VerifyPage } from './pages/VerifyPage';
 import { DatasetPage } from './pages/DatasetPage';
+import { TrainingPage } from './pages/TrainingPage';
+import { CertificatesPage } from './pages/CertificatesPage';
 
 function App() {
   return (
@@ -17,6 +19,8 @@ function App() {
           <Route path="/upload" element={<UploadPage />} />
           <Route path="/verify" element={<VerifyPage />} />
           <Route path="/dataset" element={<DatasetPage />} />
+          <Route path="/training" element={<TrainingPage />} />
+          <Route path="/certificates" element={<CertificatesPage />} />
         </Routes>
       </main>
 
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { OpenTruthCertificate } from "../types";
+import { findAllowlistCap, getAllowlistMembers, parseGrantees, updateAllowlist } from "../lib/seal-policy";
+import { formatSuiAddress } from "../lib/sui";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+/**
+ * Members of an encrypted certificate's allowlist, editable by the Cap holder
+ */
+export function AllowlistManager({ certificate }: { certificate: OpenTruthCertificate }) {
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const [members, setMembers] = useState<string[] | null>(null);
+  const [capId, setCapId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [newGrantees, setNewGrantees] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const encryption = certificate.encryption;
+  const allowlistId = encryption?.policy?.type === "allowlist" ? encryption.policy.allowlistId : undefined;
+  const packageId = encryption?.packageId;
+
+  useEffect(() => {
+    if (!allowlistId) return;
+
+    let cancelled = false;
+    Promise.all([
+      getAllowlistMembers(client, allowlistId),
+      account ? findAllowlistCap(client, account.address, allowlistId, packageId) : null,
+    ])
+      .then(([list, cap]) => {
+        if (cancelled) return;
+        setMembers(list);
+        setCapId(cap);
+        setLoadError(null);
+      })
+      .catch((err) => {
+        console.warn("Allowlist lookup failed:", err);
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Could not read the allowlist");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account, allowlistId, packageId, version]);
+
+  if (!allowlistId) return null;
+
+  const runUpdate = async (changes: { add?: string[]; remove?: string[] }, successText: string) => {
+    if (!capId) return;
+    try {
+      setLoading(true);
+      setMessage(null);
+      await updateAllowlist(client, signAndExecute, { allowlistId, capId, ...changes }, packageId);
+      setMessage({ type: "success", text: successText });
+      setVersion((v) => v + 1);
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : "Allowlist update failed" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const { addresses, invalid } = parseGrantees(newGrantees);
+    if (invalid.length > 0) {
+      setMessage({ type: "error", text: `Invalid Sui address: ${invalid.join(", ")}` });
+      return;
+    }
+
+    const current = new Set(members ?? []);
+    const add = addresses.filter((a) => !current.has(a));
+    if (add.length === 0) {
+      setMessage({ type: "error", text: "No new addresses to add" });
+      return;
+    }
+
+    await runUpdate({ add }, `Added ${add.length} grantee(s)`);
+    setNewGrantees("");
+  };
+
+  const self = account ? normalizeSuiAddress(account.address) : null;
+
+  return (
+    <div className="bg-purple-50 p-3 rounded-md space-y-3 border border-purple-200">
+      <div>
+        <p className="text-sm font-semibold text-purple-900">🔐 Decryption Allowlist</p>
+        <p className="text-xs font-mono text-purple-700 break-all">{allowlistId}</p>
+      </div>
+
+      {loadError && <p className="text-xs text-red-700">{loadError}</p>}
+      {!members && !loadError && <p className="text-xs text-gray-600">Loading allowlist...</p>}
+
+      {members && (
+        <ul className="space-y-1">
+          {members.length === 0 && <li className="text-xs text-gray-600">No one can decrypt this artifact.</li>}
+          {members.map((member) => (
+            <li key={member} className="flex items-center justify-between gap-2">
+              <span className="text-xs font-mono" title={member}>
+                {formatSuiAddress(member)}
+                {member === self && " (you)"}
+              </span>
+              {capId && (
+                <Button
+                  onClick={() => runUpdate({ remove: [member] }, `Removed ${formatSuiAddress(member)}`)}
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  disabled={loading}
+                >
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {capId ? (
+        <div className="space-y-1">
+          <Label htmlFor={`grantees-${allowlistId}`} className="text-xs">Add Grantees</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`grantees-${allowlistId}`}
+              type="text"
+              placeholder="0x..., 0x..."
+              value={newGrantees}
+              onChange={(e) => setNewGrantees(e.target.value)}
+              disabled={loading}
+            />
+            <Button onClick={handleAdd} size="sm" disabled={loading || !newGrantees.trim()}>
+              {loading ? "Updating..." : "Add"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        members && (
+          <p className="text-xs text-gray-600">
+            Connect the wallet holding this allowlist's admin Cap to add or remove grantees.
+          </p>
+        )
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === "error" ? "text-red-700" : "text-green-700"}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { anchorCertificate, isAnchoringConfigured } from "../lib/anchor";
+import { Button } from "./ui/button";
+
+interface AnchorPanelProps {
+  certificateBlobId: string;
+  artifactHash: string;
+  digest?: string; // Set when anchoring already succeeded during upload
+  error?: string; // Set when anchoring failed during upload
+}
+
+/**
+ * On-chain anchor status of a freshly uploaded certificate, with retry
+ */
+export function AnchorPanel({ certificateBlobId, artifactHash, digest: initialDigest, error: initialError }: AnchorPanelProps) {
+  const client = useSuiClient();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const [digest, setDigest] = useState(initialDigest);
+  const [error, setError] = useState(initialError);
+  const [loading, setLoading] = useState(false);
+
+  if (!isAnchoringConfigured()) return null;
+
+  const handleAnchor = async () => {
+    try {
+      setLoading(true);
+      setError(undefined);
+      setDigest(await anchorCertificate(client, signAndExecute, certificateBlobId, artifactHash));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Anchoring failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (digest) {
+    return (
+      <div className="p-3 bg-indigo-50 rounded-md border border-indigo-200">
+        <p className="text-sm font-medium text-indigo-900">⛓️ Anchored on Sui</p>
+        <p className="text-xs font-mono mt-1 break-all text-indigo-700">{digest}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-amber-50 rounded-md border border-amber-200 space-y-2">
+      <p className="text-sm font-medium text-amber-900">Not anchored on Sui</p>
+      {error && <p className="text-xs text-amber-800">{error}</p>}
+      <p className="text-xs text-amber-700">
+        Anchoring records the certificate's blob ID, artifact hash and author on Sui with a trusted timestamp.
+      </p>
+      <Button onClick={handleAnchor} size="sm" variant="outline" disabled={loading}>
+        {loading ? "Anchoring..." : error ? "Retry Anchoring" : "Anchor on Sui"}
+      </Button>
+    </div>
+  );
+}
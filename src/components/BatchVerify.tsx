@@ -0,0 +1,276 @@
+import { useState } from "react";
+import {
+  BATCH_STATUS_LABELS,
+  batchReportToCsv,
+  parseManifest,
+  summarizeBatch,
+  verifyBatch,
+  type BatchFileResult,
+  type BatchProgress,
+  type BatchStatus,
+  type ManifestEntry,
+} from "../lib/batch-verify";
+import { downloadBlob } from "../lib/utils";
+import { Alert } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  valid: "text-green-700",
+  hash_mismatch: "text-red-700",
+  bad_signature: "text-red-700",
+  not_found: "text-amber-700",
+  error: "text-red-700",
+};
+
+// React's input typings do not include the non-standard folder picker attribute
+const FOLDER_INPUT_PROPS = { webkitdirectory: "" } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export function BatchVerify() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [matchByHash, setMatchByHash] = useState(true);
+  const [concurrency, setConcurrency] = useState(4);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [results, setResults] = useState<BatchFileResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files || []));
+    setResults(null);
+  };
+
+  const handleVerify = async () => {
+    if (files.length === 0 || (!manifestFile && !matchByHash)) {
+      setError("Please select files and a manifest, or enable matching by hash");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setResults(null);
+
+      let manifest: ManifestEntry[] = [];
+      if (manifestFile) {
+        manifest = parseManifest(await manifestFile.text(), manifestFile.name);
+      }
+
+      setResults(await verifyBatch({
+        files,
+        manifest,
+        matchByHash,
+        concurrency,
+        onProgress: setProgress,
+      }));
+    } catch (err) {
+      console.error("Batch verification failed:", err);
+      setError(err instanceof Error ? err.message : "Batch verification failed");
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = (format: "csv" | "json") => {
+    if (!results) return;
+    const stamp = new Date().toISOString().slice(0, 10);
+    const blob = format === "csv"
+      ? new Blob([batchReportToCsv(results)], { type: "text/csv" })
+      : new Blob([JSON.stringify({ generatedAt: Date.now(), results }, null, 2)], { type: "application/json" });
+    downloadBlob(blob, `opentruth-batch-report-${stamp}.${format}`);
+  };
+
+  const handleReset = () => {
+    setFiles([]);
+    setManifestFile(null);
+    setResults(null);
+    setError(null);
+  };
+
+  const summary = results ? summarizeBatch(results) : null;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm font-medium">Error</p>
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {results && summary && (
+        <div className="space-y-3">
+          <Alert variant={summary.valid === results.length ? "default" : "destructive"} className="border-2">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{summary.valid === results.length ? "✅" : "⚠️"}</span>
+              <div>
+                <p className="font-semibold text-lg">
+                  {summary.valid} of {results.length} files verified
+                </p>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {(Object.keys(summary) as BatchStatus[])
+                    .filter((status) => summary[status] > 0)
+                    .map((status) => (
+                      <Badge key={status} variant="outline">
+                        {BATCH_STATUS_LABELS[status]}: {summary[status]}
+                      </Badge>
+                    ))}
+                </div>
+              </div>
+            </div>
+          </Alert>
+
+          <div className="flex gap-2">
+            <Button onClick={() => handleDownload("csv")} variant="outline" size="sm">
+              Download CSV Report
+            </Button>
+            <Button onClick={() => handleDownload("json")} variant="outline" size="sm">
+              Download JSON Report
+            </Button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border rounded-md divide-y">
+            {results.map((r, i) => (
+              <div key={i} className="p-2 text-sm flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{r.filename}</p>
+                  {r.certificateBlobId && (
+                    <p className="text-xs font-mono text-gray-500 break-all">{r.certificateBlobId}</p>
+                  )}
+                  {r.detail && <p className="text-xs text-gray-600 break-all">{r.detail}</p>}
+                </div>
+                <span className={`text-xs font-semibold whitespace-nowrap ${STATUS_STYLES[r.status]}`}>
+                  {r.status === "valid" ? "✓ " : "✗ "}
+                  {BATCH_STATUS_LABELS[r.status]}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="batchFolder">Files to Verify *</Label>
+          <Input
+            id="batchFolder"
+            type="file"
+            multiple
+            {...FOLDER_INPUT_PROPS}
+            onChange={handleFilesChange}
+            disabled={loading}
+          />
+          <Input
+            id="batchFiles"
+            type="file"
+            multiple
+            onChange={handleFilesChange}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-600">
+            Select a folder (first input) or individual files (second input).
+            {files.length > 0 && ` ${files.length} files selected.`}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="batchManifest">Manifest (CSV or JSON, Optional)</Label>
+          <Input
+            id="batchManifest"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => {
+              setManifestFile(e.target.files?.[0] || null);
+              setResults(null);
+            }}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-600">
+            CSV rows of <code>filename,certificateBlobId</code>, or JSON{" "}
+            <code>[{"{"} "filename", "certificateBlobId" {"}"}]</code>. Rows with only a blob ID are used
+            as candidates for hash matching.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={matchByHash}
+              onChange={(e) => setMatchByHash(e.target.checked)}
+              disabled={loading}
+            />
+            Match files not in the manifest to certificates by hash
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Parallel
+            <select
+              className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={loading}
+            >
+              {[1, 2, 4, 8].map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-600 text-center">
+            {progress.completed} / {progress.total} files verified
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleVerify}
+          disabled={files.length === 0 || (!manifestFile && !matchByHash) || loading}
+          className="flex-1"
+          size="lg"
+        >
+          {loading ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-spin">⚙️</span>
+              <span>Verifying batch...</span>
+            </span>
+          ) : (
+            `Verify ${files.length || ""} Files`
+          )}
+        </Button>
+
+        {results && (
+          <Button onClick={handleReset} variant="outline" size="lg">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {!results && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200">
+          <p className="text-sm font-medium text-blue-900 mb-2">How Batch Verification Works</p>
+          <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
+            <li>Files listed in the manifest are checked against their named certificate</li>
+            <li>Other files are matched by hash against your library and manifest certificates</li>
+            <li>Each certificate is fetched and its signature verified once, however many files use it</li>
+            <li>The report lists every file as valid, hash mismatch, bad signature or not found</li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,50 @@
 
 
-import { getCertificateSummary } from '../lib/certificate';
+import { useEffect, useState } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { CERTIFICATE_RELATIONS, getCertificateSummary } from '../lib/certificate';
+import { getWalrusExplorerUrl } from '../lib/walrus';
+import { isLegacySignature } from '../lib/sui';
+import { checkRevocation, type RevocationCheck } from '../lib/revocation';
+import { formatChunkSize } from '../lib/chunks';
 import { Badge } from './ui/badge';
+import { RevocationBanner } from './RevocationBanner';
+import { EmbargoCountdown } from './EmbargoCountdown';
+import { DecryptButton } from './DecryptButton';
+import { StoredFileButton } from './StoredFileButton';
 import type { OpenTruthCertificate } from '../types';
 
 interface CertificateDisplayProps {
   certificate: OpenTruthCertificate;
+  certificateBlobId?: string; // When set, revocation status is looked up and shown
 }
 
-export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
+export function CertificateDisplay({ certificate, certificateBlobId }: CertificateDisplayProps) {
   const summary = getCertificateSummary(certificate);
+  const client = useSuiClient();
+  const [revocation, setRevocation] = useState<RevocationCheck | null>(null);
+
+  useEffect(() => {
+    if (!certificateBlobId) return;
+
+    let cancelled = false;
+    checkRevocation(client, certificateBlobId, certificate)
+      .then((result) => {
+        if (!cancelled) setRevocation(result);
+      })
+      .catch((error) => {
+        console.warn("Revocation check failed:", error);
+        if (!cancelled) setRevocation({ status: "unknown", detail: "The revocation check failed" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, certificateBlobId, certificate]);
 
   return (
     <div className="space-y-4">
+      {certificateBlobId && revocation && <RevocationBanner revocation={revocation} />}
+
       {/* Summary */}
       <div className="grid grid-cols-2 gap-3">
         <div>
@@ -47,6 +79,18 @@ export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
         </p>
       </div>
 
+      {/* Chunk Manifest */}
+      {certificate.artifact.chunks && (
+        <div>
+          <p className="text-xs font-medium text-gray-600 mb-1">
+            Chunk Manifest ({certificate.artifact.chunks.chunkHashes.length} × {formatChunkSize(certificate.artifact.chunks.chunkSize)})
+          </p>
+          <p className="text-xs font-mono bg-gray-50 p-2 rounded break-all">
+            {certificate.artifact.chunks.merkleRoot}
+          </p>
+        </div>
+      )}
+
       {/* Model Info */}
       {certificate.model && (
         <div className="p-3 bg-purple-50 rounded-md">
@@ -80,6 +124,18 @@ export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
                 <p className="text-xs font-mono mt-0.5 break-all">{certificate.model.datasetMerkleRoot}</p>
               </div>
             )}
+            {certificate.model.runId && (
+              <div>
+                <p className="text-xs font-medium text-purple-800">Training Run</p>
+                <p className="text-xs font-mono mt-0.5 break-all">{certificate.model.runId}</p>
+              </div>
+            )}
+            {certificate.model.previousCheckpointHash && (
+              <div>
+                <p className="text-xs font-medium text-purple-800">Previous Checkpoint Hash</p>
+                <p className="text-xs font-mono mt-0.5 break-all">{certificate.model.previousCheckpointHash}</p>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -124,15 +180,48 @@ export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
         </div>
       )}
 
+      {/* References */}
+      {certificate.references && certificate.references.length > 0 && (
+        <div className="p-3 bg-amber-50 rounded-md">
+          <p className="text-sm font-semibold text-amber-900 mb-2">Related Certificates</p>
+          <div className="space-y-2">
+            {certificate.references.map((ref, i) => (
+              <div key={i}>
+                <p className="text-xs font-medium text-amber-800">
+                  {CERTIFICATE_RELATIONS[ref.relation] ?? ref.relation}
+                </p>
+                <a
+                  href={getWalrusExplorerUrl(ref.certificateBlobId)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs font-mono break-all text-blue-600 hover:underline"
+                >
+                  {ref.certificateBlobId}
+                </a>
+                <p className="text-xs font-mono text-amber-700 break-all">{ref.artifactHash}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Proofs */}
       <div className="p-3 bg-blue-50 rounded-md">
         <p className="text-sm font-semibold text-blue-900 mb-2">Cryptographic Proofs</p>
         <div className="space-y-2">
           <div>
             <p className="text-xs font-medium text-blue-800">Signature Scheme</p>
-            <Badge variant="outline" className="mt-1">
-              {certificate.proofs.signature.scheme}
-            </Badge>
+            <div className="flex items-center gap-2 mt-1">
+              <Badge variant="outline">
+                {certificate.proofs.signature.scheme}
+              </Badge>
+              <Badge variant="outline">v{certificate.version}</Badge>
+            </div>
+            {isLegacySignature(certificate) && (
+              <p className="text-xs text-amber-700 mt-1">
+                ⚠️ Legacy signature format: nested fields (e.g. the artifact hash) are not covered by the signature.
+              </p>
+            )}
           </div>
           <div>
             <p className="text-xs font-medium text-blue-800">Signature</p>
@@ -160,6 +249,15 @@ export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
                 <div>
                   <span className="font-medium">Threshold:</span> {certificate.encryption.threshold}/N
                 </div>
+                {/* Time-locked artifacts offer decryption from the countdown once the embargo lifts */}
+                {certificate.encryption.policy?.type === 'timelock' ? (
+                  <EmbargoCountdown certificate={certificate} />
+                ) : (
+                  <DecryptButton
+                    certificate={certificate}
+                    encryptedBlobId={certificate.encryption.encryptedBlobId ?? certificate.storage.walrusBlobId}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -188,6 +286,10 @@ export function CertificateDisplay({ certificate }: CertificateDisplayProps) {
               </p>
             </div>
           </div>
+          {/* Public uploads store the plaintext; dataset certificates store no file */}
+          {!certificate.encryption?.enabled && !certificate.dataset && certificate.storage.walrusBlobId && (
+            <StoredFileButton certificate={certificate} />
+          )}
         </div>
       </div>
 
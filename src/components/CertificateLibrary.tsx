@@ -0,0 +1,459 @@
+import { useRef, useState } from 'react';
+import type { OpenTruthCertificate } from '../types';
+import {
+  deleteCertificate,
+  exportCertificates,
+  getAllCertificates,
+  getAllTags,
+  getStorageInfo,
+  importCertificates,
+  searchCertificates,
+  updateCertificateMetadata,
+  type StoredCertificate,
+} from '../lib/storage';
+import { formatSuiAddress } from '../lib/sui';
+import { getWalrusExplorerUrl } from '../lib/walrus';
+import { publishHashIndex } from '../lib/hash-index';
+import { getLifetimeStatus } from '../lib/lifetime';
+import { downloadBlob } from '../lib/utils';
+import { Card } from './ui/card';
+import { Alert } from './ui/alert';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { CertificateDisplay } from './CertificateDisplay';
+import { RevokeCertificateForm } from './RevokeCertificateForm';
+import { AllowlistManager } from './AllowlistManager';
+import { RenewStorageForm } from './RenewStorageForm';
+
+type PresenceFilter = 'any' | 'yes' | 'no';
+
+const ARTIFACT_TYPES: OpenTruthCertificate['artifact']['type'][] = ['image', 'video', 'audio', 'document'];
+
+function toPresence(value: PresenceFilter): boolean | undefined {
+  if (value === 'any') return undefined;
+  return value === 'yes';
+}
+
+function parseTags(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+export function CertificateLibrary() {
+  const [query, setQuery] = useState('');
+  const [artifactType, setArtifactType] = useState('');
+  const [hasModel, setHasModel] = useState<PresenceFilter>('any');
+  const [hasDataset, setHasDataset] = useState<PresenceFilter>('any');
+  const [tag, setTag] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  // Bumped after every mutation so the list below is re-read from localStorage
+  const [, setRevision] = useState(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const certificates = searchCertificates(query.trim() || undefined, {
+    artifactType: artifactType || undefined,
+    hasModel: toPresence(hasModel),
+    hasDataset: toPresence(hasDataset),
+    tags: tag ? [tag] : undefined,
+  });
+  const allTags = getAllTags();
+  const storageInfo = getStorageInfo();
+  const needsRenewal = getAllCertificates().filter((entry) => {
+    const { status } = getLifetimeStatus(entry);
+    return status === 'expiring' || status === 'expired';
+  }).length;
+
+  const refresh = () => setRevision((r) => r + 1);
+
+  const handleStartEdit = (entry: StoredCertificate) => {
+    setEditingId(entry.id);
+    setEditTags((entry.tags || []).join(', '));
+    setEditNotes(entry.notes || '');
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+
+    const ok = updateCertificateMetadata(editingId, {
+      tags: parseTags(editTags),
+      notes: editNotes.trim(),
+    });
+    setMessage(ok
+      ? { type: 'success', text: 'Certificate updated' }
+      : { type: 'error', text: 'Failed to update certificate' });
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDelete = (entry: StoredCertificate) => {
+    const name = entry.certificate.artifact.filename || entry.id;
+    if (!confirm(`Remove "${name}" from the local library? The Walrus blob is not affected.`)) {
+      return;
+    }
+
+    const ok = deleteCertificate(entry.id);
+    setMessage(ok
+      ? { type: 'success', text: 'Certificate removed from library' }
+      : { type: 'error', text: 'Failed to delete certificate' });
+    if (expandedId === entry.id) setExpandedId(null);
+    refresh();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCertificates()], { type: 'application/json' });
+    downloadBlob(blob, `opentruth-certificates-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const backupFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!backupFile) return;
+
+    try {
+      const imported = importCertificates(await backupFile.text());
+      setMessage({
+        type: 'success',
+        text: `Imported ${imported} certificate${imported === 1 ? '' : 's'}`,
+      });
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Import failed',
+      });
+    }
+    refresh();
+  };
+
+  // Publish a hash → certificate index so others can look up files by hash
+  const handlePublishIndex = async () => {
+    try {
+      setPublishing(true);
+      const blobId = await publishHashIndex();
+      setMessage({
+        type: 'success',
+        text: `Hash index published to Walrus: ${blobId}. Share this blob ID or set it as VITE_HASH_INDEX_BLOB_ID.`,
+      });
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to publish hash index',
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setQuery('');
+    setArtifactType('');
+    setHasModel('any');
+    setHasDataset('any');
+    setTag('');
+  };
+
+  const selectClassName = 'h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm';
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Certificate Library</h2>
+          <p className="text-sm text-gray-600">
+            Certificates generated in this browser. Stored locally; back them up regularly.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button onClick={handleExport} variant="outline" size="sm">
+            Export Backup
+          </Button>
+          <Button onClick={() => importInputRef.current?.click()} variant="outline" size="sm">
+            Import Backup
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button onClick={handlePublishIndex} variant="outline" size="sm" disabled={publishing}>
+            {publishing ? 'Publishing...' : 'Publish Index'}
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+          <p className="text-sm">{message.text}</p>
+        </Alert>
+      )}
+
+      {storageInfo.percentage > 0.8 && (
+        <Alert variant="destructive">
+          <p className="text-sm font-medium">Storage almost full</p>
+          <p className="text-sm">
+            {Math.round(storageInfo.percentage * 100)}% of local storage used. Export a backup and remove old certificates.
+          </p>
+        </Alert>
+      )}
+
+      {needsRenewal > 0 && (
+        <Alert>
+          <p className="text-sm font-medium">Walrus storage expiring</p>
+          <p className="text-sm">
+            {needsRenewal} certificate{needsRenewal === 1 ? ' has' : 's have'} expired or will expire soon on Walrus. Renew them to keep them verifiable.
+          </p>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="librarySearch">Search</Label>
+          <Input
+            id="librarySearch"
+            type="text"
+            placeholder="Filename, blob ID, model, tag or notes"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="filterType" className="text-xs">Artifact Type</Label>
+            <select
+              id="filterType"
+              className={selectClassName}
+              value={artifactType}
+              onChange={(e) => setArtifactType(e.target.value)}
+            >
+              <option value="">All</option>
+              {ARTIFACT_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filterModel" className="text-xs">Model Info</Label>
+            <select
+              id="filterModel"
+              className={selectClassName}
+              value={hasModel}
+              onChange={(e) => setHasModel(e.target.value as PresenceFilter)}
+            >
+              <option value="any">Any</option>
+              <option value="yes">With model</option>
+              <option value="no">Without model</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filterDataset" className="text-xs">Dataset</Label>
+            <select
+              id="filterDataset"
+              className={selectClassName}
+              value={hasDataset}
+              onChange={(e) => setHasDataset(e.target.value as PresenceFilter)}
+            >
+              <option value="any">Any</option>
+              <option value="yes">Datasets only</option>
+              <option value="no">Exclude datasets</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filterTag" className="text-xs">Tag</Label>
+            <select
+              id="filterTag"
+              className={selectClassName}
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+            >
+              <option value="">All</option>
+              {allTags.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>
+            {certificates.length} certificate{certificates.length === 1 ? '' : 's'} shown
+          </span>
+          <button onClick={handleClearFilters} className="hover:text-blue-600 hover:underline">
+            Clear filters
+          </button>
+        </div>
+      </div>
+
+      {/* Certificate List */}
+      {certificates.length === 0 ? (
+        <div className="bg-gray-50 p-4 rounded-md text-center">
+          <p className="text-sm text-gray-600">
+            No certificates found. Certificates appear here after you upload a file or dataset.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {certificates.map((entry) => {
+            const cert = entry.certificate;
+            const isExpanded = expandedId === entry.id;
+            const isEditing = editingId === entry.id;
+            const lifetime = getLifetimeStatus(entry);
+
+            return (
+              <div key={entry.id} className="border rounded-md p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="text-sm font-semibold truncate">
+                        {cert.artifact.filename || 'Untitled'}
+                      </p>
+                      <Badge variant="outline">{cert.artifact.type}</Badge>
+                      {cert.dataset && <Badge variant="secondary">dataset</Badge>}
+                      {cert.model && <Badge variant="secondary">{cert.model.name}</Badge>}
+                      {cert.encryption?.enabled && <Badge variant="secondary">🔐 encrypted</Badge>}
+                      {entry.revocationBlobId && <Badge variant="destructive">revoked</Badge>}
+                      {lifetime.status === 'expired' && <Badge variant="destructive">storage expired</Badge>}
+                      {lifetime.status === 'expiring' && (
+                        <Badge variant="outline" className="border-amber-400 text-amber-700">
+                          expires soon
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs font-mono text-gray-600 break-all">{entry.id}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatSuiAddress(cert.author.suiAddress)} • Saved {new Date(entry.savedAt).toLocaleString()} •{' '}
+                      {lifetime.expiresAt
+                        ? `Stored until ~${new Date(lifetime.expiresAt).toLocaleDateString()}`
+                        : 'Storage lifetime unknown'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      {isExpanded ? 'Hide' : 'View'}
+                    </Button>
+                    <Button onClick={() => handleStartEdit(entry)} variant="ghost" size="sm">
+                      Edit
+                    </Button>
+                    <Button onClick={() => setRenewingId(entry.id)} variant="ghost" size="sm">
+                      Renew
+                    </Button>
+                    {!entry.revocationBlobId && (
+                      <Button onClick={() => setRevokingId(entry.id)} variant="ghost" size="sm">
+                        Revoke
+                      </Button>
+                    )}
+                    <Button onClick={() => handleDelete(entry)} variant="ghost" size="sm" className="text-red-600">
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+
+                {!isEditing && (entry.tags?.length || entry.notes) && (
+                  <div className="space-y-1">
+                    {!!entry.tags?.length && (
+                      <div className="flex gap-1 flex-wrap">
+                        {entry.tags.map((t) => (
+                          <Badge key={t} variant="outline" className="text-xs">#{t}</Badge>
+                        ))}
+                      </div>
+                    )}
+                    {entry.notes && (
+                      <p className="text-xs text-gray-700 whitespace-pre-wrap">{entry.notes}</p>
+                    )}
+                  </div>
+                )}
+
+                {isEditing && (
+                  <div className="bg-gray-50 p-3 rounded-md space-y-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`tags-${entry.id}`} className="text-xs">Tags (comma separated)</Label>
+                      <Input
+                        id={`tags-${entry.id}`}
+                        type="text"
+                        value={editTags}
+                        onChange={(e) => setEditTags(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`notes-${entry.id}`} className="text-xs">Notes</Label>
+                      <textarea
+                        id={`notes-${entry.id}`}
+                        className="w-full min-h-20 rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+                        value={editNotes}
+                        onChange={(e) => setEditNotes(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleSaveEdit} size="sm">Save</Button>
+                      <Button onClick={() => setEditingId(null)} variant="outline" size="sm">Cancel</Button>
+                    </div>
+                  </div>
+                )}
+
+                {revokingId === entry.id && (
+                  <RevokeCertificateForm
+                    entry={entry}
+                    onDone={(result) => {
+                      setMessage(result);
+                      setRevokingId(null);
+                      refresh();
+                    }}
+                    onCancel={() => setRevokingId(null)}
+                  />
+                )}
+
+                {renewingId === entry.id && (
+                  <RenewStorageForm
+                    entry={entry}
+                    onDone={(result) => {
+                      setMessage(result);
+                      setRenewingId(null);
+                      refresh();
+                    }}
+                    onCancel={() => setRenewingId(null)}
+                  />
+                )}
+
+                {isExpanded && (
+                  <div className="border-t pt-3 space-y-3">
+                    <CertificateDisplay certificate={cert} certificateBlobId={entry.id} />
+                    <AllowlistManager certificate={cert} />
+                    <a
+                      href={getWalrusExplorerUrl(entry.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline inline-block"
+                    >
+                      View on Walrus Explorer →
+                    </a>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
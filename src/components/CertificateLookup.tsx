@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { hashFile } from "../lib/crypto";
+import {
+  createWalrusHashIndex,
+  findCertificatesByHash,
+  getCertificateIndexes,
+  type LookupResult,
+} from "../lib/hash-index";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+
+interface CertificateLookupProps {
+  file: File | null;
+  onSelect: (certificateBlobId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Discover certificates for a file from its hash alone
+ */
+export function CertificateLookup({ file, onSelect, disabled }: CertificateLookupProps) {
+  const [indexBlobId, setIndexBlobId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [fileHash, setFileHash] = useState<string | null>(null);
+  const [results, setResults] = useState<LookupResult[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleLookup = async () => {
+    if (!file) return;
+
+    try {
+      setLoading(true);
+      setErrors([]);
+      const hash = await hashFile(file);
+      setFileHash(hash);
+
+      const indexes = getCertificateIndexes();
+      if (indexBlobId.trim()) {
+        indexes.push(createWalrusHashIndex(indexBlobId.trim(), "Walrus index (custom)"));
+      }
+
+      const lookup = await findCertificatesByHash(hash, indexes);
+      setResults(lookup.results);
+      setErrors(lookup.errors.map((e) => `${e.index}: ${e.message}`));
+    } catch (err) {
+      console.error("Certificate lookup failed:", err);
+      setResults(null);
+      setErrors([err instanceof Error ? err.message : "Lookup failed"]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          placeholder="Additional index blob ID (optional)"
+          value={indexBlobId}
+          onChange={(e) => setIndexBlobId(e.target.value)}
+          disabled={disabled || loading}
+        />
+        <Button
+          onClick={handleLookup}
+          variant="outline"
+          className="h-9 shrink-0"
+          disabled={!file || disabled || loading}
+        >
+          {loading ? "Searching..." : "Find Certificates"}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-600">
+        {file
+          ? `Searches your local library and published hash indexes for ${file.name}.`
+          : "Select the file to verify below, then search for its certificates."}
+      </p>
+
+      {errors.map((message) => (
+        <p key={message} className="text-xs text-amber-700">⚠️ {message}</p>
+      ))}
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-gray-600">
+          No certificates found for <span className="font-mono text-xs break-all">{fileHash}</span>
+        </p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="border rounded-md divide-y">
+          {results.map((r) => (
+            <div key={`${r.certificateBlobId}:${r.match}`} className="p-2 flex items-start justify-between gap-3">
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium">
+                  {r.filename || "Untitled"}
+                  {r.timestamp && (
+                    <span className="text-xs text-gray-500 font-normal">
+                      {" "}• {new Date(r.timestamp).toLocaleString()}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs font-mono text-gray-500 break-all">{r.certificateBlobId}</p>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant={r.match === "artifact" ? "default" : "secondary"}>
+                    {r.match === "artifact" ? "Certifies this file" : "Dataset containing this file"}
+                  </Badge>
+                  {r.sources.map((source) => (
+                    <Badge key={source} variant="outline">{source}</Badge>
+                  ))}
+                </div>
+              </div>
+              {r.match === "artifact" ? (
+                <Button
+                  onClick={() => onSelect(r.certificateBlobId)}
+                  size="sm"
+                  variant="outline"
+                  disabled={disabled}
+                >
+                  Use
+                </Button>
+              ) : (
+                <span className="text-xs text-gray-500 text-right">
+                  Use Dataset Membership to verify
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { getPreviewKind, PREVIEW_TEXT_BYTES, type CheckedFile } from '../lib/preview';
+import { Button } from './ui/button';
+import type { OpenTruthCertificate } from '../types';
+
+/**
+ * Hash check result for fetched or decrypted content, with download and inline preview
+ */
+export function CheckedFilePanel({
+  certificate,
+  file,
+  label,
+}: {
+  certificate: OpenTruthCertificate;
+  file: CheckedFile;
+  label: string; // e.g. "Decrypted file"
+}) {
+  const [showPreview, setShowPreview] = useState(false);
+  const { filename, mimeType, hash, size } = certificate.artifact;
+  const kind = getPreviewKind(mimeType);
+
+  const handleDownload = () => {
+    const a = document.createElement('a');
+    a.href = file.url;
+    a.download = filename || 'artifact';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  };
+
+  return (
+    <div
+      className={`p-2 rounded border space-y-2 ${
+        file.matches ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+      }`}
+    >
+      {file.matches ? (
+        <p className="text-xs font-semibold text-green-900">✓ {label} matches the certificate's artifact hash</p>
+      ) : (
+        <div>
+          <p className="text-xs font-semibold text-red-900">✗ {label} does not match the certificate</p>
+          <p className="text-xs text-red-800 mt-0.5">Expected</p>
+          <p className="text-xs font-mono break-all text-red-800">{hash}</p>
+          <p className="text-xs text-red-800 mt-0.5">Got</p>
+          <p className="text-xs font-mono break-all text-red-800">{file.hash}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleDownload} size="sm" variant={file.matches ? 'default' : 'outline'}>
+          {file.matches ? 'Download' : 'Download Anyway'}
+        </Button>
+        {kind && (
+          <Button onClick={() => setShowPreview(!showPreview)} size="sm" variant="outline">
+            {showPreview ? 'Hide Preview' : 'Preview'}
+          </Button>
+        )}
+      </div>
+
+      {showPreview && kind === 'image' && (
+        <img src={file.url} alt={filename || 'Artifact'} className="max-h-80 rounded border" />
+      )}
+      {showPreview && kind === 'video' && (
+        <video src={file.url} controls className="max-h-80 w-full rounded border" />
+      )}
+      {showPreview && kind === 'audio' && <audio src={file.url} controls className="w-full" />}
+      {showPreview && kind === 'text' && (
+        <pre className="p-2 bg-white rounded border text-xs max-h-80 overflow-auto whitespace-pre-wrap break-all">
+          {file.text}
+          {size > PREVIEW_TEXT_BYTES && '\n…'}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useCurrentAccount, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
+import { getCheckpointCertificates, loadCheckpointRecord, type CheckpointRecordCheck } from '../lib/training';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+
+/**
+ * Checkpoint certificates in the library; opening one fetches (and, if
+ * encrypted, decrypts) its record and re-checks the checkpoint hash
+ */
+export function CheckpointList() {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [records, setRecords] = useState<Record<string, CheckpointRecordCheck | { error: string }>>({});
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const { mutateAsync: signMessage } = useSignPersonalMessage();
+
+  const checkpoints = getCheckpointCertificates();
+
+  const handleOpen = async (id: string) => {
+    const entry = checkpoints.find((c) => c.id === id);
+    if (!entry) return;
+
+    setOpeningId(id);
+    try {
+      const record = await loadCheckpointRecord(entry.certificate, {
+        client,
+        ownerAddress: account?.address,
+        signMessage: async (message: Uint8Array) => {
+          const result = await signMessage({ message });
+          return { signature: result.signature };
+        },
+      });
+      setRecords((prev) => ({ ...prev, [id]: record }));
+    } catch (err) {
+      console.error('Opening checkpoint failed:', err);
+      setRecords((prev) => ({ ...prev, [id]: { error: err instanceof Error ? err.message : 'Failed to open checkpoint' } }));
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Recorded Checkpoints ({checkpoints.length})</h3>
+        <p className="text-sm text-gray-600">
+          Open a checkpoint to fetch its record from Walrus and check it against the certificate.
+        </p>
+      </div>
+
+      {checkpoints.length === 0 && (
+        <p className="text-sm text-gray-500">No checkpoints recorded yet.</p>
+      )}
+
+      <div className="space-y-3">
+        {checkpoints.map((entry) => {
+          const { model, encryption } = entry.certificate;
+          const record = records[entry.id];
+
+          return (
+            <div key={entry.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="text-sm font-semibold">
+                      {model?.name}{model?.version && ` ${model.version}`}
+                    </p>
+                    {encryption?.enabled && <Badge variant="secondary">encrypted</Badge>}
+                  </div>
+                  {entry.notes && <p className="text-xs text-gray-600">{entry.notes}</p>}
+                  <p className="text-xs font-mono text-gray-500 break-all">{model?.checkpointHash}</p>
+                </div>
+                <Button
+                  onClick={() => handleOpen(entry.id)}
+                  disabled={openingId !== null}
+                  variant="outline"
+                  size="sm"
+                >
+                  {openingId === entry.id ? 'Opening...' : encryption?.enabled ? '🔐 Open' : 'Open'}
+                </Button>
+              </div>
+
+              {record && 'error' in record && (
+                <p className="text-xs text-red-700">{record.error}</p>
+              )}
+
+              {record && 'checkpoint' in record && (
+                <div className="p-2 bg-gray-50 rounded text-xs space-y-1">
+                  <p className={record.integrityValid ? 'text-green-700' : 'text-red-700'}>
+                    {record.integrityValid ? '✓ Checkpoint hash matches the record' : '✗ Checkpoint hash does not match the record'}
+                  </p>
+                  <p className={record.datasetValid ? 'text-green-700' : 'text-red-700'}>
+                    {record.datasetValid ? '✓ Trained on the certified dataset' : '✗ Dataset Merkle root differs from the certificate'}
+                  </p>
+                  <p>
+                    Epoch {record.checkpoint.epoch} · accuracy {record.checkpoint.accuracy} · loss {record.checkpoint.loss} ·{' '}
+                    {new Date(record.checkpoint.timestamp).toLocaleString()}
+                  </p>
+                  {record.checkpoint.hyperparameters && (
+                    <p className="font-mono text-gray-600">
+                      {JSON.stringify(record.checkpoint.hyperparameters)}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
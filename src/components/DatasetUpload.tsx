@@ -1,18 +1,26 @@
 import { useState } from 'react';
-import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
-import type { OpenTruthCertificate } from '../types';
+import type { MerkleTree } from 'merkletreejs';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
+import type { CertificateReference, OpenTruthCertificate } from '../types';
 
 import { hashFiles } from '../lib/crypto';
-import { buildMerkleTree } from '../lib/merkle';
-import { completeCertificate, generateDatasetCertificate } from '../lib/certificate';
+import { buildMerkleTree, createInclusionProof } from '../lib/merkle';
+import { completeCertificate, generateDatasetCertificate, normalizeReferences } from '../lib/certificate';
 import { signCertificate } from '../lib/sui';
 import { getWalrusExplorerUrl, uploadCertificate } from '../lib/walrus';
 import { saveCertificate } from '../lib/storage';
+import { anchorCertificate, isAnchoringConfigured } from '../lib/anchor';
+import { downloadBlob } from '../lib/utils';
 import { Card } from './ui/card';
 import { Alert } from './ui/alert';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
+import { ReferencesEditor } from './ReferencesEditor';
+import { AnchorPanel } from './AnchorPanel';
+import { getActiveNetwork } from '../config/networks';
+import { DEFAULT_STORAGE_EPOCHS, toBlobLifetime } from '../lib/lifetime';
+import { StorageDurationSelect } from './StorageDurationSelect';
 
 export function DatasetUpload() {
   const [files, setFiles] = useState<File[]>([]);
@@ -20,12 +28,18 @@ export function DatasetUpload() {
   const [progress, setProgress] = useState<string>('');
   const [merkleRoot, setMerkleRoot] = useState<string>('');
   const [fileHashes, setFileHashes] = useState<string[]>([]);
+  const [merkleTree, setMerkleTree] = useState<MerkleTree | null>(null);
   const [certificate, setCertificate] = useState<OpenTruthCertificate | null>(null);
   const [certBlobId, setCertBlobId] = useState<string>('');
+  const [references, setReferences] = useState<CertificateReference[]>([]);
+  const [storageEpochs, setStorageEpochs] = useState(DEFAULT_STORAGE_EPOCHS);
+  const [anchor, setAnchor] = useState<{ digest?: string; error?: string }>({});
   const [error, setError] = useState<string | null>(null);
 
   const account = useCurrentAccount();
   const { mutateAsync: signMessage } = useSignPersonalMessage();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const client = useSuiClient();
 
   const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
@@ -33,6 +47,7 @@ export function DatasetUpload() {
     setError(null);
     setMerkleRoot('');
     setFileHashes([]);
+    setMerkleTree(null);
     setCertificate(null);
     setCertBlobId('');
   };
@@ -47,11 +62,15 @@ export function DatasetUpload() {
       setLoading(true);
       setProgress('Hashing files...');
 
-      const hashes = await hashFiles(files);
+      const hashes = await hashFiles(files, {
+        onProgress: ({ bytesHashed, totalBytes }) =>
+          setProgress(`Hashing files... ${Math.floor((bytesHashed / (totalBytes || 1)) * 100)}%`),
+      });
       setFileHashes(hashes);
 
       setProgress('Building Merkle tree...');
-      const { root } = await buildMerkleTree(hashes);
+      const { tree, root } = await buildMerkleTree(hashes);
+      setMerkleTree(tree);
       setMerkleRoot(root);
 
       setProgress('Complete!');
@@ -80,31 +99,44 @@ export function DatasetUpload() {
         files,
         fileHashes,
         merkleRoot,
-        account.address
+        account.address,
+        normalizeReferences(references)
       );
 
       setProgress('Signing certificate...');
-      const { signature, publicKey } = await signCertificate(baseCert, signMessage);
+      const { signature, publicKey, scheme } = await signCertificate(baseCert, signMessage);
 
       setProgress('Completing certificate...');
       const completeCert = completeCertificate(
         baseCert,
         {
           signature: {
-            scheme: 'ED25519' as const,
+            scheme,
             signature,
             publicKey,
           },
         },
         {
           walrusBlobId: '',
-          network: 'localnet', // ✅ Changed from "testnet" to "localnet"
+          network: getActiveNetwork(),
           uploadedAt: Date.now(),
         }
       );
 
       setProgress('Uploading certificate...');
-      const blobId = await uploadCertificate(completeCert);
+      const certUpload = await uploadCertificate(completeCert, { epochs: storageEpochs });
+      const blobId = certUpload.blobId;
+
+      // Anchor on Sui (optional; a failure can be retried below)
+      if (isAnchoringConfigured()) {
+        setProgress('Anchoring certificate on Sui...');
+        try {
+          setAnchor({ digest: await anchorCertificate(client, signAndExecute, blobId, completeCert.artifact.hash) });
+        } catch (err) {
+          setAnchor({ error: err instanceof Error ? err.message : 'Anchoring failed' });
+        }
+      }
+
       setCertBlobId(blobId);
 
       completeCert.storage.walrusBlobId = blobId;
@@ -114,6 +146,7 @@ export function DatasetUpload() {
       saveCertificate(blobId, completeCert, {
         tags: ['dataset'],
         notes: `Dataset with ${files.length} files`,
+        storageLifetime: { certificate: toBlobLifetime(certUpload) },
       });
 
       setProgress('Complete!');
@@ -128,12 +161,29 @@ export function DatasetUpload() {
     }
   };
 
+  const handleDownloadProof = (index: number) => {
+    if (!merkleTree || !certBlobId) return;
+
+    try {
+      const file = files[index];
+      const proof = createInclusionProof(merkleTree, fileHashes[index], index, certBlobId, file.name);
+      const blob = new Blob([JSON.stringify(proof, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `${file.name}.proof.json`);
+    } catch (err) {
+      console.error('Proof generation failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate inclusion proof');
+    }
+  };
+
   const handleReset = () => {
     setFiles([]);
     setMerkleRoot('');
     setFileHashes([]);
+    setMerkleTree(null);
     setCertificate(null);
     setCertBlobId('');
+    setReferences([]);
+    setAnchor({});
     setError(null);
   };
 
@@ -258,6 +308,34 @@ export function DatasetUpload() {
         </div>
       )}
 
+      {/* Certificate References */}
+      {merkleRoot && !certificate && (
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-1">Related Certificates (Optional)</h3>
+          <p className="text-xs text-gray-600 mb-3">
+            For example, mark this dataset as superseding an earlier version.
+          </p>
+          <ReferencesEditor
+            references={references}
+            onChange={setReferences}
+            disabled={loading}
+          />
+        </div>
+      )}
+
+      {/* Storage Duration */}
+      {merkleRoot && !certificate && (
+        <div className="border-t pt-4 space-y-2">
+          <Label htmlFor="datasetStorageEpochs">Storage Duration</Label>
+          <StorageDurationSelect
+            id="datasetStorageEpochs"
+            epochs={storageEpochs}
+            onChange={setStorageEpochs}
+            disabled={loading}
+          />
+        </div>
+      )}
+
       {/* Generate Certificate */}
       {merkleRoot && !certificate && (
         <Button
@@ -294,6 +372,38 @@ export function DatasetUpload() {
               View on Walrus Explorer →
             </a>
           </div>
+
+          <AnchorPanel
+            certificateBlobId={certBlobId}
+            artifactHash={certificate.artifact.hash}
+            digest={anchor.digest}
+            error={anchor.error}
+          />
+
+          {/* Inclusion Proofs */}
+          <div className="border-t border-blue-200 pt-3">
+            <p className="text-sm font-medium">Membership Proofs</p>
+            <p className="text-xs text-gray-600 mt-1">
+              Download a proof to show a single file belongs to this dataset without sharing the other files.
+            </p>
+            <div className="mt-2 max-h-48 overflow-y-auto space-y-1">
+              {files.map((file, i) => (
+                <div key={i} className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-gray-700 truncate">
+                    {i + 1}. {file.name}
+                  </p>
+                  <Button
+                    onClick={() => handleDownloadProof(i)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs shrink-0"
+                  >
+                    Download Proof
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       )}
 
@@ -1,101 +1,104 @@
-import { useState } from 'react';
-import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import { useEffect, useState } from 'react';
+import { useCurrentAccount, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
 import { decryptFileWithSeal } from '../lib/seal-encryption';
-import { bcs } from '@mysten/sui/bcs';
+import { canDecryptCertificate, getAllowlistMembers } from '../lib/seal-policy';
+import { checkFileAgainstCertificate, type CheckedFile } from '../lib/preview';
 import { Button } from './ui/button';
+import { CheckedFilePanel } from './CheckedFilePanel';
 import type { OpenTruthCertificate } from '../types';
-import { SUI_RPC_URL } from '../config/seal-config';
-import { SuiClient } from '@mysten/sui/client';
+import { readFromWalrus } from '../lib/walrus';
 
-export function DecryptButton({ 
-  certificate, 
-  encryptedBlobId 
-}: { 
+/**
+ * Decrypt an encrypted artifact, re-hash the plaintext against artifact.hash,
+ * then offer it for download or inline preview
+ */
+export function DecryptButton({
+  certificate,
+  encryptedBlobId
+}: {
   certificate: OpenTruthCertificate;
   encryptedBlobId: string;
 }) {
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [members, setMembers] = useState<string[]>();
+  const [decrypted, setDecrypted] = useState<CheckedFile | null>(null);
   const account = useCurrentAccount();
+  const suiClient = useSuiClient();
   const { mutateAsync: signMessage } = useSignPersonalMessage();
 
-  const canDecrypt = certificate.encryption?.enabled && 
-    account?.address === certificate.author.suiAddress;
+  const policy = certificate.encryption?.policy;
+  const allowlistId = policy?.type === 'allowlist' ? policy.allowlistId : undefined;
 
-  if (!canDecrypt) return null;
+  // Grantees can change after upload, so prefer the on-chain allowlist
+  useEffect(() => {
+    if (!allowlistId) return;
+
+    let cancelled = false;
+    getAllowlistMembers(suiClient, allowlistId)
+      .then((list) => {
+        if (!cancelled) setMembers(list);
+      })
+      .catch((error) => console.warn('Allowlist lookup failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [suiClient, allowlistId]);
+
+  // Release the plaintext when it is replaced or the view closes
+  useEffect(() => {
+    if (!decrypted) return;
+    return () => URL.revokeObjectURL(decrypted.url);
+  }, [decrypted]);
+
+  const canDecrypt = canDecryptCertificate(certificate, account?.address, members);
+
+  if (!canDecrypt || !account) return null;
 
   const handleDecrypt = async () => {
     setLoading(true);
+    setDecrypted(null);
     try {
-      // Create SuiClient instance for localnet
-      const suiClient = new SuiClient({ url: SUI_RPC_URL });
-      
-      // Use environment variable for Walrus aggregator URL
-      const walrusAggregatorUrl = import.meta.env.VITE_WALRUS_AGGREGATOR_URL || 
-        "https://aggregator.walrus-testnet.walrus.space";
-      
       // Fetch encrypted data from Walrus
-      const response = await fetch(
-        `${walrusAggregatorUrl}/v1/${encryptedBlobId.replace('BLOB:', '')}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from Walrus: ${response.status}`);
-      }
-      
-      const encryptedData = new Uint8Array(await response.arrayBuffer());
+      setProgress('Downloading...');
+      const encryptedBlob = await readFromWalrus(encryptedBlobId);
+      const encryptedData = new Uint8Array(await encryptedBlob.arrayBuffer());
 
       // Decrypt using Seal
+      setProgress('Decrypting...');
       const decryptedData = await decryptFileWithSeal({
         encryptedData,
         suiAddress: account.address,
-        suiClient, // ✅ Added missing suiClient parameter
+        suiClient,
         signMessage: async (message: Uint8Array) => {
           const result = await signMessage({ message });
           return { signature: result.signature };
         },
-        getTxBytes: async () => {
-          // Create minimal auth transaction
-          const txData = {
-            V1: {
-              kind: { ProgrammableTransaction: { inputs: [], commands: [] } },
-              sender: account.address,
-              gasData: {
-                payment: [],
-                owner: account.address,
-                price: '1000',
-                budget: '10000000',
-              },
-              expiration: { None: null },
-            },
-          };
-          return bcs.TransactionData.serialize(txData).toBytes();
-        }
+        policy: policy ?? { type: 'userOwned', owner: certificate.author.suiAddress },
       });
 
-      // Create blob and trigger download
-      const blob = new Blob([decryptedData.buffer as ArrayBuffer], { 
-        type: certificate.artifact.mimeType 
-      });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = certificate.artifact.filename || 'decrypted-file';
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
-
+      // Prove the plaintext is the certified artifact before handing it over
+      const blob = new Blob([decryptedData.buffer as ArrayBuffer]);
+      setDecrypted(await checkFileAgainstCertificate(blob, certificate, {
+        onProgress: ({ bytesHashed, totalBytes }) =>
+          setProgress(`Verifying... ${Math.floor((bytesHashed / (totalBytes || 1)) * 100)}%`),
+      }));
     } catch (error) {
       console.error('Decryption failed:', error);
       alert(`Failed to decrypt: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
+      setProgress('');
     }
   };
 
   return (
-    <Button onClick={handleDecrypt} disabled={loading}>
-      {loading ? 'Decrypting...' : '🔐 Decrypt File'}
-    </Button>
+    <div className="space-y-2">
+      <Button onClick={handleDecrypt} disabled={loading} size="sm">
+        {loading ? progress || 'Decrypting...' : decrypted ? '🔐 Decrypt Again' : '🔐 Decrypt File'}
+      </Button>
+
+      {decrypted && <CheckedFilePanel certificate={certificate} file={decrypted} label="Decrypted file" />}
+    </div>
   );
-}
\ No newline at end of file
+}
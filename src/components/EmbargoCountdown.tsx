@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { formatTimeRemaining } from '../lib/utils';
+import { getCertificateUnlockTime } from '../lib/seal-policy';
+import { DecryptButton } from './DecryptButton';
+import type { OpenTruthCertificate } from '../types';
+
+/**
+ * Countdown to a time-locked artifact's unlock time; offers decryption once it has passed
+ */
+export function EmbargoCountdown({ certificate }: { certificate: OpenTruthCertificate }) {
+  const [now, setNow] = useState(() => Date.now());
+  const encryption = certificate.encryption;
+  const unlockAt = getCertificateUnlockTime(encryption);
+  const lifted = unlockAt !== undefined && now >= unlockAt;
+
+  useEffect(() => {
+    if (unlockAt === undefined || lifted) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [unlockAt, lifted]);
+
+  if (unlockAt === undefined) return null;
+
+  const encryptedBlobId = encryption?.encryptedBlobId ?? certificate.storage.walrusBlobId;
+
+  if (!lifted) {
+    return (
+      <div className="p-2 bg-amber-50 rounded border border-amber-200">
+        <p className="text-xs font-semibold text-amber-900">⏳ Embargoed until {new Date(unlockAt).toLocaleString()}</p>
+        <p className="text-xs font-mono text-amber-800 mt-0.5">Unlocks in {formatTimeRemaining(unlockAt - now)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 bg-green-50 rounded border border-green-200 space-y-2">
+      <p className="text-xs font-semibold text-green-900">
+        🔓 Embargo lifted on {new Date(unlockAt).toLocaleString()}. Anyone with a connected wallet can decrypt.
+      </p>
+      <DecryptButton certificate={certificate} encryptedBlobId={encryptedBlobId} />
+    </div>
+  );
+}
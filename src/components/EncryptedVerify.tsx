@@ -0,0 +1,267 @@
+import { useState } from "react";
+import type { OpenTruthCertificate } from "../types";
+import { getCertificate } from "../lib/walrus";
+import { validateCertificate } from "../lib/certificate";
+import { verifyCertificateSignature } from "../lib/sui";
+import { verifyEncryptedArtifact, type EncryptedArtifactCheck } from "../lib/seal-encryption";
+import { Alert } from "./ui/alert";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { CertificateDisplay } from "./CertificateDisplay";
+
+type CertificateSource = "walrus" | "file";
+
+interface EncryptedResult {
+  valid: boolean;
+  certificate?: OpenTruthCertificate;
+  signatureValid: boolean;
+  artifact?: EncryptedArtifactCheck;
+  error?: string;
+}
+
+/**
+ * Verify the stored ciphertext of an encrypted certificate without the
+ * plaintext or decryption rights
+ */
+export function EncryptedVerify() {
+  const [source, setSource] = useState<CertificateSource>("walrus");
+  const [certBlobId, setCertBlobId] = useState("");
+  const [certJsonFile, setCertJsonFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<string>("");
+  const [result, setResult] = useState<EncryptedResult | null>(null);
+
+  const hasCertificateInput = source === "walrus" ? !!certBlobId.trim() : !!certJsonFile;
+
+  const loadCertificate = async () => {
+    if (source === "walrus") {
+      setProgress("Fetching certificate from Walrus...");
+      return getCertificate(certBlobId.trim());
+    }
+
+    setProgress("Reading certificate JSON...");
+    try {
+      return JSON.parse(await certJsonFile!.text());
+    } catch {
+      throw new Error("Certificate is not valid JSON");
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!hasCertificateInput) return;
+
+    try {
+      setLoading(true);
+
+      // 1. Load the certificate; only encrypted certificates qualify
+      const certificate = await loadCertificate();
+      if (!validateCertificate(certificate)) {
+        throw new Error("Invalid certificate structure. Missing required fields.");
+      }
+      if (!certificate.encryption?.enabled) {
+        setResult({
+          valid: false,
+          certificate,
+          signatureValid: false,
+          error: "This certificate is not encrypted. Verify it against the original file instead.",
+        });
+        return;
+      }
+
+      // 2. Fetch the ciphertext, hash it and parse its Seal header
+      setProgress("Fetching encrypted file...");
+      const artifact = await verifyEncryptedArtifact(certificate, {
+        onProgress: (fraction) => setProgress(`Hashing ciphertext... ${Math.floor(fraction * 100)}%`),
+      });
+
+      // 3. The signature covers the encryption block, so it vouches for the expected values
+      setProgress("Verifying cryptographic signature...");
+      const signatureValid = await verifyCertificateSignature(
+        certificate,
+        certificate.proofs.signature.signature,
+        certificate.proofs.signature.publicKey
+      );
+
+      const { headerValid, keyIdMatch, packageIdMatch, thresholdMatch, ciphertextHashMatch } = artifact.checks;
+
+      setResult({
+        valid: signatureValid && headerValid && keyIdMatch && packageIdMatch && thresholdMatch && ciphertextHashMatch === true,
+        certificate,
+        signatureValid,
+        artifact,
+        error: ciphertextHashMatch === undefined
+          ? "This certificate predates recorded ciphertext hashes, so only the header can be checked"
+          : undefined,
+      });
+    } catch (err) {
+      console.error("Encrypted verification failed:", err);
+      setResult({
+        valid: false,
+        signatureValid: false,
+        error: err instanceof Error ? err.message : "Verification failed",
+      });
+    } finally {
+      setLoading(false);
+      setProgress("");
+    }
+  };
+
+  const handleReset = () => {
+    setResult(null);
+    setCertBlobId("");
+    setCertJsonFile(null);
+  };
+
+  const checks = result?.artifact?.checks;
+  const header = result?.artifact?.header;
+  const checkRows: Array<{ ok: boolean; label: string; pass: string; fail: string }> = result?.artifact && checks
+    ? [
+        { ok: result.signatureValid, label: "Certificate signature", pass: "Valid", fail: "Invalid" },
+        {
+          ok: checks.headerValid,
+          label: "Seal header",
+          pass: `Parsed (${header?.keyServers} key server(s))`,
+          fail: "Not a Seal encrypted object",
+        },
+        { ok: checks.keyIdMatch, label: "Key ID", pass: "Matches certificate", fail: "Differs from certificate" },
+        { ok: checks.packageIdMatch, label: "Package ID", pass: "Matches certificate", fail: "Differs from certificate" },
+        {
+          ok: checks.thresholdMatch,
+          label: "Threshold",
+          pass: `${header?.threshold} (matches certificate)`,
+          fail: "Differs from certificate",
+        },
+        {
+          ok: checks.ciphertextHashMatch === true,
+          label: "Ciphertext hash",
+          pass: "Matches certificate",
+          fail: checks.ciphertextHashMatch === undefined ? "Not recorded" : "Modified",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {result && (
+        <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{result.valid ? "✅" : "❌"}</span>
+              <div>
+                <p className="font-semibold text-lg">
+                  {result.valid ? "Ciphertext Verified" : "Ciphertext Not Verified"}
+                </p>
+                {result.error && (
+                  <p className="text-sm mt-1 text-gray-600">{result.error}</p>
+                )}
+              </div>
+            </div>
+
+            {checkRows.length > 0 && (
+              <div className="space-y-2 pl-10">
+                {checkRows.map((row) => (
+                  <div key={row.label} className="flex items-center gap-2">
+                    <span className="text-green-600 font-bold">{row.ok ? "✓" : "✗"}</span>
+                    <span className="text-sm">
+                      {row.label}: {" "}
+                      <span className={row.ok ? "text-green-700" : "text-red-700"}>
+                        {row.ok ? row.pass : row.fail}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+                <p className="text-xs font-mono text-gray-600 break-all">
+                  {result.artifact?.blobId}: {result.artifact?.ciphertextHash}
+                </p>
+                {result.valid && (
+                  <p className="text-xs text-gray-600">
+                    The stored ciphertext is the one the author certified. Its content was not decrypted.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Certificate *</Label>
+          <div className="flex gap-1">
+            {(["walrus", "file"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                disabled={loading}
+                className={`px-2 py-0.5 rounded text-xs font-medium ${
+                  source === option ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {option === "walrus" ? "Blob ID" : "JSON File"}
+              </button>
+            ))}
+          </div>
+        </div>
+        {source === "walrus" ? (
+          <Input
+            id="encryptedCertBlobId"
+            type="text"
+            placeholder="BLOB:0xabc123..."
+            value={certBlobId}
+            onChange={(e) => setCertBlobId(e.target.value)}
+            disabled={loading}
+          />
+        ) : (
+          <Input
+            id="encryptedCertJsonFile"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              setCertJsonFile(e.target.files?.[0] || null);
+              setResult(null);
+            }}
+            disabled={loading}
+          />
+        )}
+        <p className="text-xs text-gray-600">
+          The encrypted file is fetched from Walrus and checked against the certificate. No wallet or plaintext is needed.
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleVerify}
+          disabled={!hasCertificateInput || loading}
+          className="flex-1"
+          size="lg"
+        >
+          {loading ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-spin">⚙️</span>
+              <span>{progress || "Verifying..."}</span>
+            </span>
+          ) : (
+            "Verify Ciphertext"
+          )}
+        </Button>
+
+        {result && (
+          <Button onClick={handleReset} variant="outline" size="lg">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {result?.certificate && (
+        <div className="border-t pt-6">
+          <h3 className="text-lg font-semibold mb-3">Certificate Details</h3>
+          <CertificateDisplay
+            certificate={result.certificate}
+            certificateBlobId={source === "walrus" ? certBlobId.trim() : undefined}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { verifyLineage, type LineageHop, type LineageResult } from "../lib/lineage";
+import { getWalrusExplorerUrl } from "../lib/walrus";
+import { formatSuiAddress } from "../lib/sui";
+import { Alert } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+
+const HOP_LABELS: Record<LineageHop["kind"], { title: string; icon: string }> = {
+  dataset: { title: "Training Dataset", icon: "🌳" },
+  checkpoint: { title: "Model Checkpoint", icon: "🧠" },
+  output: { title: "AI Output", icon: "🖼️" },
+};
+
+function HopCard({ hop }: { hop: LineageHop }) {
+  const { title, icon } = HOP_LABELS[hop.kind];
+  const statusStyles = {
+    pass: "border-green-300 bg-green-50",
+    fail: "border-red-300 bg-red-50",
+    skipped: "border-gray-200 bg-gray-50",
+  }[hop.status];
+
+  return (
+    <div className={`border-2 rounded-md p-4 space-y-2 ${statusStyles}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold flex items-center gap-2">
+          <span>{icon}</span>
+          {title}
+        </p>
+        <Badge variant={hop.status === "fail" ? "destructive" : "outline"}>
+          {hop.status === "pass" ? "✓ Pass" : hop.status === "fail" ? "✗ Fail" : "Not declared"}
+        </Badge>
+      </div>
+
+      {hop.blobId && (
+        <div className="text-xs">
+          <a
+            href={getWalrusExplorerUrl(hop.blobId)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono break-all text-blue-600 hover:underline"
+          >
+            {hop.blobId}
+          </a>
+          {hop.resolvedFrom === "library" && (
+            <span className="text-gray-500"> (found in local library)</span>
+          )}
+          {hop.resolvedFrom === "reference" && (
+            <span className="text-gray-500"> (resolved from certificate reference)</span>
+          )}
+        </div>
+      )}
+
+      {hop.certificate && (
+        <p className="text-xs text-gray-600">
+          {hop.certificate.artifact.filename || hop.certificate.model?.name || "Untitled"} • signed by{" "}
+          <span className="font-mono">{formatSuiAddress(hop.certificate.author.suiAddress)}</span>
+        </p>
+      )}
+
+      {hop.error && <p className="text-xs text-red-700">{hop.error}</p>}
+
+      {hop.checks.length > 0 && (
+        <div className="space-y-1">
+          {hop.checks.map((check) => (
+            <div key={check.label} className="flex items-start gap-2 text-sm">
+              <span className={check.ok ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                {check.ok ? "✓" : "✗"}
+              </span>
+              <span>
+                {check.label}
+                {check.detail && (
+                  <span className="block text-xs font-mono text-gray-500 break-all">{check.detail}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LineageVerify() {
+  const [outputBlobId, setOutputBlobId] = useState("");
+  const [checkpointBlobId, setCheckpointBlobId] = useState("");
+  const [datasetBlobId, setDatasetBlobId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<LineageResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    if (!outputBlobId.trim()) {
+      setError("Please provide the output certificate blob ID");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await verifyLineage({
+        outputBlobId: outputBlobId.trim(),
+        checkpointBlobId: checkpointBlobId.trim() || undefined,
+        datasetBlobId: datasetBlobId.trim() || undefined,
+        file: file || undefined,
+      }));
+    } catch (err) {
+      console.error("Lineage verification failed:", err);
+      setError(err instanceof Error ? err.message : "Lineage verification failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setResult(null);
+    setError(null);
+    setFile(null);
+    setOutputBlobId("");
+    setCheckpointBlobId("");
+    setDatasetBlobId("");
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm font-medium">Error</p>
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{result.valid ? "✅" : "❌"}</span>
+              <p className="font-semibold text-lg">
+                {result.valid ? "Provenance Chain Verified" : "Provenance Chain Broken"}
+              </p>
+            </div>
+          </Alert>
+
+          <div className="space-y-2">
+            {result.hops.map((hop, i) => (
+              <div key={hop.kind}>
+                <HopCard hop={hop} />
+                {i < result.hops.length - 1 && (
+                  <p className="text-center text-gray-400 text-lg leading-none py-1">↓</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="outputBlobId">Output Certificate Blob ID *</Label>
+          <Input
+            id="outputBlobId"
+            type="text"
+            placeholder="BLOB:0xabc123..."
+            value={outputBlobId}
+            onChange={(e) => setOutputBlobId(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="lineageFile">Output File (Optional)</Label>
+          <Input
+            id="lineageFile"
+            type="file"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="checkpointBlobId">Checkpoint Certificate Blob ID</Label>
+            <Input
+              id="checkpointBlobId"
+              type="text"
+              placeholder="Resolved from references if empty"
+              value={checkpointBlobId}
+              onChange={(e) => setCheckpointBlobId(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="datasetBlobId">Dataset Certificate Blob ID</Label>
+            <Input
+              id="datasetBlobId"
+              type="text"
+              placeholder="Resolved from references if empty"
+              value={datasetBlobId}
+              onChange={(e) => setDatasetBlobId(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleVerify}
+          disabled={!outputBlobId.trim() || loading}
+          className="flex-1"
+          size="lg"
+        >
+          {loading ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-spin">⚙️</span>
+              <span>Verifying lineage...</span>
+            </span>
+          ) : (
+            "Verify Lineage"
+          )}
+        </Button>
+
+        {result && (
+          <Button onClick={handleReset} variant="outline" size="lg">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {!result && (
+        <div className="bg-blue-50 p-4 rounded-md border border-blue-200">
+          <p className="text-sm font-medium text-blue-900 mb-2">How Lineage Verification Works</p>
+          <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
+            <li>The output certificate's checkpoint hash must match the checkpoint certificate</li>
+            <li>The checkpoint's dataset root must match the dataset certificate's Merkle root</li>
+            <li>The dataset root is recomputed from its file hashes</li>
+            <li>Every certificate's signature is verified independently</li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import type { DatasetInclusionProof, OpenTruthCertificate } from "../types";
+import { hashFile } from "../lib/crypto";
+import { validateInclusionProof, verifyMerkleProof } from "../lib/merkle";
+import { getCertificate } from "../lib/walrus";
+import { validateCertificate } from "../lib/certificate";
+import { verifyCertificateSignature } from "../lib/sui";
+import { Alert } from "./ui/alert";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { CertificateDisplay } from "./CertificateDisplay";
+
+interface MembershipResult {
+  valid: boolean;
+  proof?: DatasetInclusionProof;
+  certificate?: OpenTruthCertificate;
+  checks: {
+    fileHashMatch: boolean;
+    rootMatch: boolean;
+    proofValid: boolean;
+    signatureValid: boolean;
+  };
+  error?: string;
+}
+
+const EMPTY_CHECKS: MembershipResult["checks"] = {
+  fileHashMatch: false,
+  rootMatch: false,
+  proofValid: false,
+  signatureValid: false,
+};
+
+export function MembershipVerify() {
+  const [file, setFile] = useState<File | null>(null);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<string>("");
+  const [result, setResult] = useState<MembershipResult | null>(null);
+
+  const handleVerify = async () => {
+    if (!file || !proofFile) {
+      setResult({
+        valid: false,
+        checks: EMPTY_CHECKS,
+        error: "Please provide both a file and its inclusion proof",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setProgress("Reading inclusion proof...");
+
+      // 1. Parse proof bundle
+      let proof: unknown;
+      try {
+        proof = JSON.parse(await proofFile.text());
+      } catch {
+        throw new Error("Inclusion proof is not valid JSON");
+      }
+      if (!validateInclusionProof(proof)) {
+        throw new Error("Invalid inclusion proof format");
+      }
+
+      setProgress("Hashing file...");
+
+      // 2. The file must be the one the proof was issued for
+      const fileHash = await hashFile(file);
+      const fileHashMatch = fileHash === proof.fileHash;
+
+      setProgress("Fetching dataset certificate from Walrus...");
+
+      // 3. Fetch the referenced dataset certificate
+      const certificate = await getCertificate(proof.datasetCertificateBlobId);
+      if (!validateCertificate(certificate) || !certificate.dataset) {
+        setResult({
+          valid: false,
+          proof,
+          checks: { ...EMPTY_CHECKS, fileHashMatch },
+          error: "Referenced certificate is not a valid dataset certificate",
+        });
+        return;
+      }
+
+      // 4. Proof must target the root the author signed, not its own copy
+      const certifiedRoot = certificate.dataset.merkleRoot;
+      const rootMatch = proof.merkleRoot.toLowerCase() === certifiedRoot.toLowerCase();
+
+      setProgress("Verifying Merkle path...");
+      const proofValid = verifyMerkleProof(proof.siblings, fileHash, certifiedRoot);
+
+      setProgress("Verifying certificate signature...");
+      const signatureValid = await verifyCertificateSignature(
+        certificate,
+        certificate.proofs.signature.signature,
+        certificate.proofs.signature.publicKey
+      );
+
+      setResult({
+        valid: fileHashMatch && rootMatch && proofValid && signatureValid,
+        proof,
+        certificate,
+        checks: { fileHashMatch, rootMatch, proofValid, signatureValid },
+      });
+    } catch (err) {
+      console.error("Membership verification failed:", err);
+      setResult({
+        valid: false,
+        checks: EMPTY_CHECKS,
+        error: err instanceof Error ? err.message : "Verification failed",
+      });
+    } finally {
+      setLoading(false);
+      setProgress("");
+    }
+  };
+
+  const handleReset = () => {
+    setResult(null);
+    setFile(null);
+    setProofFile(null);
+  };
+
+  const checkRows: Array<{ ok: boolean; label: string; pass: string; fail: string }> = result
+    ? [
+        { ok: result.checks.fileHashMatch, label: "File hash", pass: "Matches proof", fail: "Does not match proof" },
+        { ok: result.checks.rootMatch, label: "Merkle root", pass: "Matches dataset certificate", fail: "Differs from dataset certificate" },
+        { ok: result.checks.proofValid, label: "Inclusion path", pass: "Valid", fail: "Invalid" },
+        { ok: result.checks.signatureValid, label: "Certificate signature", pass: "Valid", fail: "Invalid" },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {result && (
+        <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{result.valid ? "✅" : "❌"}</span>
+              <div>
+                <p className="font-semibold text-lg">
+                  {result.valid ? "File Is Part of the Dataset" : "Membership Not Proven"}
+                </p>
+                {result.error && (
+                  <p className="text-sm mt-1 text-gray-600">{result.error}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2 pl-10">
+              {checkRows.map((row) => (
+                <div key={row.label} className="flex items-center gap-2">
+                  <span className={row.ok ? "text-green-600 font-bold" : "text-red-600 font-bold"}>{row.ok ? "✓" : "✗"}</span>
+                  <span className="text-sm">
+                    {row.label}: {" "}
+                    <span className={row.ok ? "text-green-700" : "text-red-700"}>
+                      {row.ok ? row.pass : row.fail}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="memberFile">File to Verify *</Label>
+          <Input
+            id="memberFile"
+            type="file"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setResult(null);
+            }}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="proofFile">Inclusion Proof (.proof.json) *</Label>
+          <Input
+            id="proofFile"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              setProofFile(e.target.files?.[0] || null);
+              setResult(null);
+            }}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-600">
+            Proofs are downloaded from the Dataset page after a dataset certificate is generated.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleVerify}
+          disabled={!file || !proofFile || loading}
+          className="flex-1"
+          size="lg"
+        >
+          {loading ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-spin">⚙️</span>
+              <span>{progress || "Verifying..."}</span>
+            </span>
+          ) : (
+            "Verify Membership"
+          )}
+        </Button>
+
+        {result && (
+          <Button onClick={handleReset} variant="outline" size="lg">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {result?.certificate && (
+        <div className="border-t pt-6">
+          <h3 className="text-lg font-semibold mb-3">Dataset Certificate</h3>
+          <CertificateDisplay
+            certificate={result.certificate}
+            certificateBlobId={result.proof?.datasetCertificateBlobId}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { formatByteRange, type ChunkComparison } from "../lib/chunks";
+
+const MAX_REGIONS_SHOWN = 20;
+
+/**
+ * Which byte ranges of an artifact differ from its chunk manifest
+ */
+export function ModifiedRegions({ comparison }: { comparison: ChunkComparison }) {
+  const { mismatchedChunks, modifiedRegions, checkedChunks } = comparison;
+
+  if (!comparison.manifestValid) {
+    return <p className="text-xs text-red-700">The certificate's chunk manifest is inconsistent and cannot be trusted.</p>;
+  }
+  if (mismatchedChunks.length === 0) return null;
+
+  return (
+    <div className="text-xs text-red-700 space-y-1">
+      <p>
+        {mismatchedChunks.length} of {checkedChunks} chunk(s) differ. Modified byte ranges:
+      </p>
+      <ul className="list-disc list-inside font-mono">
+        {modifiedRegions.slice(0, MAX_REGIONS_SHOWN).map((region) => (
+          <li key={region.start}>{formatByteRange(region)}</li>
+        ))}
+      </ul>
+      {modifiedRegions.length > MAX_REGIONS_SHOWN && (
+        <p>... and {modifiedRegions.length - MAX_REGIONS_SHOWN} more</p>
+      )}
+    </div>
+  );
+}
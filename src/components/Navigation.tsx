@@ -2,14 +2,18 @@ import { Link, useLocation } from 'react-router-dom';
 import {
   ConnectButton,
   useCurrentAccount,
+  useSuiClientContext,
 } from '@mysten/dapp-kit';
 import { formatSuiAddress } from '../lib/sui';
 import { Badge } from './ui/badge';
-import { SUI_RPC_URL } from '../config/seal-config';
+import { NetworkSwitcher } from './NetworkSwitcher';
+import { getNetworkConfig, type NetworkName } from '../config/networks';
 
 export function Navigation() {
   const location = useLocation();
   const account = useCurrentAccount();
+  const { network } = useSuiClientContext();
+  const config = getNetworkConfig(network as NetworkName);
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -59,6 +63,28 @@ export function Navigation() {
               >
                 Dataset
               </Link>
+
+              <Link
+                to="/training"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  isActive('/training')
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Training
+              </Link>
+
+              <Link
+                to="/certificates"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  isActive('/certificates')
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                Library
+              </Link>
             </div>
           </div>
 
@@ -82,22 +108,23 @@ export function Navigation() {
       <div className="border-t bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 py-1 flex items-center justify-between">
           <div className="flex items-center gap-2 text-xs text-gray-600">
+            <NetworkSwitcher />
+            <span>•</span>
             <Badge variant="outline" className="text-xs">
-              Walrus Local {/* ✅ Changed from "Walrus Testnet" */}
+              Walrus: {config.walrus.aggregatorUrls[0]?.replace(/^https?:\/\//, '') ?? 'not configured'}
+              {config.walrus.aggregatorUrls.length > 1 && ` +${config.walrus.aggregatorUrls.length - 1}`}
             </Badge>
-            <span>•</span>
-            <span>Sui Localnet</span> {/* ✅ Changed from "Sui Testnet" */}
           </div>
 
-          {account && (
+          {account && config.suiExplorerUrl && (
             <div className="flex items-center gap-4 text-xs text-gray-600">
               <a
-                href={`${SUI_RPC_URL}/address/${account.address}`} 
+                href={`${config.suiExplorerUrl}/${account.address}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="hover:text-blue-600 hover:underline"
               >
-                View on Local Explorer → {/* ✅ Changed text */}
+                View on {config.label} Explorer →
               </a>
             </div>
           )}
@@ -0,0 +1,22 @@
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { NETWORK_NAMES, NETWORKS } from '../config/networks';
+
+/**
+ * Select the Sui network; Walrus, Seal and registry settings follow it
+ */
+export function NetworkSwitcher() {
+  const { network, selectNetwork } = useSuiClientContext();
+
+  return (
+    <select
+      aria-label="Network"
+      className="h-7 rounded-md border border-input bg-white px-2 text-xs"
+      value={network}
+      onChange={(e) => selectNetwork(e.target.value)}
+    >
+      {NETWORK_NAMES.map((name) => (
+        <option key={name} value={name}>Sui {NETWORKS[name].label}</option>
+      ))}
+    </select>
+  );
+}
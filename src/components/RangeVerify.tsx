@@ -0,0 +1,301 @@
+import { useState } from "react";
+import type { OpenTruthCertificate } from "../types";
+import { getCertificate } from "../lib/walrus";
+import { validateCertificate } from "../lib/certificate";
+import { verifyCertificateSignature } from "../lib/sui";
+import { formatChunkSize, verifyByteRange, type ChunkComparison } from "../lib/chunks";
+import { Alert } from "./ui/alert";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { CertificateDisplay } from "./CertificateDisplay";
+import { ModifiedRegions } from "./ModifiedRegions";
+
+type CertificateSource = "walrus" | "file";
+
+interface RangeResult {
+  valid: boolean;
+  certificate?: OpenTruthCertificate;
+  comparison?: ChunkComparison;
+  checks: {
+    signatureValid: boolean;
+    manifestValid: boolean;
+    chunksMatch: boolean;
+  };
+  error?: string;
+}
+
+const EMPTY_CHECKS: RangeResult["checks"] = {
+  signatureValid: false,
+  manifestValid: false,
+  chunksMatch: false,
+};
+
+/**
+ * Verify part of an artifact (e.g. an interrupted download) against the
+ * chunk manifest of its certificate
+ */
+export function RangeVerify() {
+  const [file, setFile] = useState<File | null>(null);
+  const [offset, setOffset] = useState("0");
+  const [source, setSource] = useState<CertificateSource>("walrus");
+  const [certBlobId, setCertBlobId] = useState("");
+  const [certJsonFile, setCertJsonFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<string>("");
+  const [result, setResult] = useState<RangeResult | null>(null);
+
+  const hasCertificateInput = source === "walrus" ? !!certBlobId.trim() : !!certJsonFile;
+
+  const loadCertificate = async () => {
+    if (source === "walrus") {
+      setProgress("Fetching certificate from Walrus...");
+      return getCertificate(certBlobId.trim());
+    }
+
+    setProgress("Reading certificate JSON...");
+    try {
+      return JSON.parse(await certJsonFile!.text());
+    } catch {
+      throw new Error("Certificate is not valid JSON");
+    }
+  };
+
+  const handleVerify = async () => {
+    const start = Number(offset);
+    if (!file || !hasCertificateInput || !Number.isInteger(start) || start < 0) {
+      setResult({
+        valid: false,
+        checks: EMPTY_CHECKS,
+        error: "Please provide a certificate, the partial file and its byte offset",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // 1. Load the certificate; only certificates with a chunk manifest qualify
+      const certificate = await loadCertificate();
+      if (!validateCertificate(certificate)) {
+        throw new Error("Invalid certificate structure. Missing required fields.");
+      }
+      if (!certificate.artifact.chunks) {
+        setResult({
+          valid: false,
+          certificate,
+          checks: EMPTY_CHECKS,
+          error: "This certificate has no chunk manifest, so only the complete file can be verified",
+        });
+        return;
+      }
+
+      // 2. Hash every chunk that lies entirely inside the range
+      setProgress("Hashing chunks...");
+      const comparison = await verifyByteRange(file, start, certificate.artifact.chunks, certificate.artifact.size, {
+        onProgress: ({ bytesHashed, totalBytes }) =>
+          setProgress(`Hashing chunks... ${Math.floor((bytesHashed / (totalBytes || 1)) * 100)}%`),
+      });
+
+      setProgress("Verifying cryptographic signature...");
+      const signatureValid = await verifyCertificateSignature(
+        certificate,
+        certificate.proofs.signature.signature,
+        certificate.proofs.signature.publicKey
+      );
+
+      const chunksMatch = comparison.checkedChunks > 0 && comparison.mismatchedChunks.length === 0;
+
+      setResult({
+        valid: signatureValid && comparison.manifestValid && chunksMatch,
+        certificate,
+        comparison,
+        checks: { signatureValid, manifestValid: comparison.manifestValid, chunksMatch },
+        error: comparison.checkedChunks === 0
+          ? `The range does not contain a whole ${formatChunkSize(certificate.artifact.chunks.chunkSize)} chunk`
+          : undefined,
+      });
+    } catch (err) {
+      console.error("Range verification failed:", err);
+      setResult({
+        valid: false,
+        checks: EMPTY_CHECKS,
+        error: err instanceof Error ? err.message : "Verification failed",
+      });
+    } finally {
+      setLoading(false);
+      setProgress("");
+    }
+  };
+
+  const handleReset = () => {
+    setResult(null);
+    setFile(null);
+    setOffset("0");
+  };
+
+  const comparison = result?.comparison;
+  const checkRows: Array<{ ok: boolean; label: string; pass: string; fail: string }> = result
+    ? [
+        { ok: result.checks.signatureValid, label: "Certificate signature", pass: "Valid", fail: "Invalid" },
+        { ok: result.checks.manifestValid, label: "Chunk manifest", pass: "Consistent with Merkle root", fail: "Inconsistent" },
+        {
+          ok: result.checks.chunksMatch,
+          label: "Chunks",
+          pass: `${comparison?.checkedChunks} chunk(s) match (${comparison?.checkedBytes.toLocaleString()} bytes)`,
+          fail: comparison?.mismatchedChunks.length ? "Modified" : "Not checked",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {result && (
+        <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{result.valid ? "✅" : "❌"}</span>
+              <div>
+                <p className="font-semibold text-lg">
+                  {result.valid ? "Byte Range Verified" : "Byte Range Not Verified"}
+                </p>
+                {result.error && (
+                  <p className="text-sm mt-1 text-gray-600">{result.error}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2 pl-10">
+              {checkRows.map((row) => (
+                <div key={row.label} className="flex items-center gap-2">
+                  <span className="text-green-600 font-bold">{row.ok ? "✓" : "✗"}</span>
+                  <span className="text-sm">
+                    {row.label}: {" "}
+                    <span className={row.ok ? "text-green-700" : "text-red-700"}>
+                      {row.ok ? row.pass : row.fail}
+                    </span>
+                  </span>
+                </div>
+              ))}
+              {comparison && <ModifiedRegions comparison={comparison} />}
+              {result.valid && file && comparison && comparison.checkedBytes < file.size && (
+                <p className="text-xs text-gray-600">
+                  {(file.size - comparison.checkedBytes).toLocaleString()} bytes at the edges of the range cover only part of a chunk and were not checked.
+                </p>
+              )}
+            </div>
+          </div>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Certificate *</Label>
+            <div className="flex gap-1">
+              {(["walrus", "file"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSource(option)}
+                  disabled={loading}
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    source === option ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {option === "walrus" ? "Blob ID" : "JSON File"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {source === "walrus" ? (
+            <Input
+              id="rangeCertBlobId"
+              type="text"
+              placeholder="BLOB:0xabc123..."
+              value={certBlobId}
+              onChange={(e) => setCertBlobId(e.target.value)}
+              disabled={loading}
+            />
+          ) : (
+            <Input
+              id="rangeCertJsonFile"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                setCertJsonFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+              disabled={loading}
+            />
+          )}
+          <p className="text-xs text-gray-600">
+            The certificate must include a chunk manifest.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rangeFile">Partial File *</Label>
+          <Input
+            id="rangeFile"
+            type="file"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setResult(null);
+            }}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rangeOffset">Starting Byte Offset</Label>
+          <Input
+            id="rangeOffset"
+            type="number"
+            min={0}
+            step={1}
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-600">
+            Where the partial file begins within the original artifact. Use 0 for an interrupted download.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleVerify}
+          disabled={!file || !hasCertificateInput || loading}
+          className="flex-1"
+          size="lg"
+        >
+          {loading ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-spin">⚙️</span>
+              <span>{progress || "Verifying..."}</span>
+            </span>
+          ) : (
+            "Verify Range"
+          )}
+        </Button>
+
+        {result && (
+          <Button onClick={handleReset} variant="outline" size="lg">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {result?.certificate && (
+        <div className="border-t pt-6">
+          <h3 className="text-lg font-semibold mb-3">Certificate Details</h3>
+          <CertificateDisplay
+            certificate={result.certificate}
+            certificateBlobId={source === "walrus" ? certBlobId.trim() : undefined}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import type { CertificateReference, CertificateRelation } from "../types";
+import { CERTIFICATE_RELATIONS } from "../lib/certificate";
+import { getCertificate } from "../lib/walrus";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+
+interface ReferencesEditorProps {
+  references: CertificateReference[];
+  onChange: (references: CertificateReference[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edit the list of parent certificates attached to a new certificate
+ */
+export function ReferencesEditor({ references, onChange, disabled }: ReferencesEditorProps) {
+  const [resolving, setResolving] = useState<number | null>(null);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+
+  const update = (index: number, patch: Partial<CertificateReference>) => {
+    onChange(references.map((ref, i) => (i === index ? { ...ref, ...patch } : ref)));
+  };
+
+  const handleAdd = () => {
+    onChange([...references, { relation: "derivedFrom", certificateBlobId: "", artifactHash: "" }]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(references.filter((_, i) => i !== index));
+    setErrors({});
+  };
+
+  // Fill the expected artifact hash from the referenced certificate itself
+  const handleResolve = async (index: number) => {
+    const blobId = references[index].certificateBlobId.trim();
+    if (!blobId) return;
+
+    try {
+      setResolving(index);
+      setErrors((e) => ({ ...e, [index]: "" }));
+      const certificate = await getCertificate(blobId);
+      if (!certificate?.artifact?.hash) {
+        throw new Error("Referenced blob is not an OpenTruth certificate");
+      }
+      update(index, { certificateBlobId: blobId, artifactHash: certificate.artifact.hash });
+    } catch (err) {
+      setErrors((e) => ({
+        ...e,
+        [index]: err instanceof Error ? err.message : "Failed to resolve certificate",
+      }));
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {references.map((ref, i) => (
+        <div key={i} className="p-3 bg-gray-50 rounded-md space-y-2">
+          <div className="flex gap-2">
+            <select
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+              value={ref.relation}
+              onChange={(e) => update(i, { relation: e.target.value as CertificateRelation })}
+              disabled={disabled}
+            >
+              {Object.entries(CERTIFICATE_RELATIONS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <Input
+              type="text"
+              placeholder="Certificate blob ID (BLOB:...)"
+              value={ref.certificateBlobId}
+              onChange={(e) => update(i, { certificateBlobId: e.target.value })}
+              disabled={disabled}
+            />
+            <Button
+              onClick={() => handleResolve(i)}
+              variant="outline"
+              size="sm"
+              className="h-9"
+              disabled={disabled || !ref.certificateBlobId.trim() || resolving === i}
+            >
+              {resolving === i ? "..." : "Resolve"}
+            </Button>
+            <Button
+              onClick={() => handleRemove(i)}
+              variant="ghost"
+              size="sm"
+              className="h-9"
+              disabled={disabled}
+            >
+              ✕
+            </Button>
+          </div>
+          <Input
+            type="text"
+            placeholder="Expected artifact hash (sha256:...)"
+            value={ref.artifactHash}
+            onChange={(e) => update(i, { artifactHash: e.target.value })}
+            disabled={disabled}
+            className="font-mono text-xs"
+          />
+          {errors[i] && <p className="text-xs text-red-600">{errors[i]}</p>}
+        </div>
+      ))}
+
+      <Button onClick={handleAdd} variant="outline" size="sm" disabled={disabled}>
+        + Add Reference
+      </Button>
+    </div>
+  );
+}
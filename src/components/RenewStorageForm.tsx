@@ -0,0 +1,90 @@
+import { useRef, useState } from "react";
+import type { StoredCertificate } from "../lib/storage";
+import { DEFAULT_STORAGE_EPOCHS, renewCertificateStorage } from "../lib/lifetime";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { StorageDurationSelect } from "./StorageDurationSelect";
+
+interface RenewStorageFormProps {
+  entry: StoredCertificate;
+  onDone: (message: { type: "success" | "error"; text: string }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Extend the Walrus storage of a certificate in the library and its file
+ */
+export function RenewStorageForm({ entry, onDone, onCancel }: RenewStorageFormProps) {
+  const [epochs, setEpochs] = useState(DEFAULT_STORAGE_EPOCHS);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState("");
+  const abort = useRef<AbortController | null>(null);
+
+  const handleRenew = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+
+    try {
+      setLoading(true);
+      setProgress("Renewing...");
+      const lifetime = await renewCertificateStorage(entry, epochs, {
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) =>
+          setProgress(`Re-uploading... ${Math.floor((loaded / (total || 1)) * 100)}%`),
+        onRetry: ({ attempt, maxAttempts }) => setProgress(`Retrying (attempt ${attempt}/${maxAttempts})...`),
+      });
+
+      const until = [lifetime.certificate, lifetime.file]
+        .filter((blob) => !!blob)
+        .map((blob) => blob.expiresAt);
+      onDone({
+        type: "success",
+        text: until.length
+          ? `Storage renewed until about ${new Date(Math.min(...until)).toLocaleDateString()}`
+          : "Storage renewed",
+      });
+    } catch (err) {
+      onDone({
+        type: "error",
+        text: controller.signal.aborted ? "Renewal cancelled" : err instanceof Error ? err.message : "Renewal failed",
+      });
+    } finally {
+      abort.current = null;
+      setLoading(false);
+      setProgress("");
+    }
+  };
+
+  return (
+    <div className="bg-blue-50 p-3 rounded-md space-y-3 border border-blue-200">
+      <p className="text-sm font-semibold text-blue-900">Renew Storage</p>
+      <p className="text-xs text-blue-800">
+        Re-uploads the certificate and its stored file with the same content, so their blob IDs and the certificate stay the same.
+        A file that has already expired cannot be restored this way.
+      </p>
+
+      <div className="space-y-1">
+        <Label htmlFor={`renew-epochs-${entry.id}`} className="text-xs">Store For</Label>
+        <StorageDurationSelect
+          id={`renew-epochs-${entry.id}`}
+          epochs={epochs}
+          onChange={setEpochs}
+          disabled={loading}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleRenew} size="sm" disabled={loading}>
+          {loading ? progress || "Renewing..." : "Renew"}
+        </Button>
+        <Button
+          onClick={() => (loading ? abort.current?.abort() : onCancel())}
+          variant="outline"
+          size="sm"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { REVOCATION_REASONS, type RevocationCheck } from "../lib/revocation";
+import { getWalrusExplorerUrl } from "../lib/walrus";
+
+/**
+ * Prominent notice for a revoked or superseded certificate, or one whose
+ * revocation status could not be checked
+ */
+export function RevocationBanner({ revocation }: { revocation: RevocationCheck }) {
+  const { status, record } = revocation;
+  if (status === "unknown") {
+    return (
+      <div className="p-3 rounded-md border-2 bg-amber-50 border-amber-300 space-y-1">
+        <p className="text-sm font-semibold text-amber-900">⚠️ Revocation unchecked</p>
+        <p className="text-xs text-amber-800">
+          {revocation.detail ?? "The revocation status could not be looked up"}. The certificate may have been revoked.
+        </p>
+      </div>
+    );
+  }
+  if (status === "active" || !record) return null;
+
+  const superseded = status === "superseded";
+
+  return (
+    <div
+      className={`p-3 rounded-md border-2 space-y-1 ${
+        superseded ? "bg-amber-50 border-amber-300" : "bg-red-50 border-red-300"
+      }`}
+    >
+      <p className={`text-sm font-semibold ${superseded ? "text-amber-900" : "text-red-900"}`}>
+        {superseded ? "⚠️ Superseded" : "⛔ Revoked"} by its author on {new Date(record.timestamp).toLocaleString()}
+      </p>
+      <p className={`text-xs ${superseded ? "text-amber-800" : "text-red-800"}`}>
+        Reason: {REVOCATION_REASONS[record.reason] ?? record.reason}
+        {record.details && ` — ${record.details}`}
+      </p>
+      {record.replacementBlobId && (
+        <p className="text-xs text-amber-800">
+          Superseded by{" "}
+          <a
+            href={getWalrusExplorerUrl(record.replacementBlobId)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono break-all text-blue-600 hover:underline"
+          >
+            {record.replacementBlobId}
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
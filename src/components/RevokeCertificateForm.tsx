@@ -0,0 +1,125 @@
+import { useState } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSignPersonalMessage,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import type { RevocationReason } from "../types";
+import type { StoredCertificate } from "../lib/storage";
+import { REVOCATION_REASONS, revokeCertificate } from "../lib/revocation";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+interface RevokeCertificateFormProps {
+  entry: StoredCertificate;
+  onDone: (message: { type: "success" | "error"; text: string }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Sign and publish a revocation record for a certificate in the library
+ */
+export function RevokeCertificateForm({ entry, onDone, onCancel }: RevokeCertificateFormProps) {
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const { mutateAsync: signMessage } = useSignPersonalMessage();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const [reason, setReason] = useState<RevocationReason>("issuedInError");
+  const [details, setDetails] = useState("");
+  const [replacementBlobId, setReplacementBlobId] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const isAuthor = account?.address === entry.certificate.author.suiAddress;
+
+  const handleRevoke = async () => {
+    try {
+      setLoading(true);
+      const { revocationBlobId, anchorError } = await revokeCertificate(
+        {
+          certificateBlobId: entry.id,
+          certificate: entry.certificate,
+          reason,
+          details,
+          replacementBlobId,
+        },
+        signMessage,
+        { client, signAndExecute }
+      );
+
+      onDone(anchorError
+        ? { type: "error", text: `Revocation stored as ${revocationBlobId}, but registering it on Sui failed: ${anchorError}` }
+        : { type: "success", text: `Certificate revoked. Revocation record: ${revocationBlobId}` });
+    } catch (err) {
+      console.error("Revocation failed:", err);
+      onDone({ type: "error", text: err instanceof Error ? err.message : "Revocation failed" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-red-50 p-3 rounded-md space-y-3 border border-red-200">
+      <p className="text-sm font-semibold text-red-900">Revoke Certificate</p>
+
+      {!isAuthor && (
+        <p className="text-xs text-red-700">
+          Connect the wallet that signed this certificate to revoke it.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor={`reason-${entry.id}`} className="text-xs">Reason</Label>
+        <select
+          id={`reason-${entry.id}`}
+          className="h-9 w-full rounded-md border border-input bg-white px-2 text-sm"
+          value={reason}
+          onChange={(e) => setReason(e.target.value as RevocationReason)}
+          disabled={loading}
+        >
+          {Object.entries(REVOCATION_REASONS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`details-${entry.id}`} className="text-xs">Details (Optional)</Label>
+        <Input
+          id={`details-${entry.id}`}
+          type="text"
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          disabled={loading}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`replacement-${entry.id}`} className="text-xs">Replacement Certificate Blob ID (Optional)</Label>
+        <Input
+          id={`replacement-${entry.id}`}
+          type="text"
+          placeholder="Marks this certificate as superseded"
+          value={replacementBlobId}
+          onChange={(e) => setReplacementBlobId(e.target.value)}
+          disabled={loading}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleRevoke}
+          size="sm"
+          variant="destructive"
+          disabled={!isAuthor || loading}
+        >
+          {loading ? "Revoking..." : "Sign & Revoke"}
+        </Button>
+        <Button onClick={onCancel} variant="outline" size="sm" disabled={loading}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
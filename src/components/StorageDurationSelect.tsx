@@ -0,0 +1,27 @@
+import { formatStorageDuration, getStorageEpochOptions } from "../lib/lifetime";
+
+interface StorageDurationSelectProps {
+  id: string;
+  epochs: number;
+  onChange: (epochs: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Number of Walrus epochs to store blobs for
+ */
+export function StorageDurationSelect({ id, epochs, onChange, disabled }: StorageDurationSelectProps) {
+  return (
+    <select
+      id={id}
+      className="h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+      value={epochs}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+    >
+      {getStorageEpochOptions().map((option) => (
+        <option key={option} value={option}>{formatStorageDuration(option)}</option>
+      ))}
+    </select>
+  );
+}
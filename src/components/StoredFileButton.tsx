@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { checkFileAgainstCertificate, type CheckedFile } from '../lib/preview';
+import { readFromWalrus } from '../lib/walrus';
+import { Button } from './ui/button';
+import { CheckedFilePanel } from './CheckedFilePanel';
+import type { OpenTruthCertificate } from '../types';
+
+/**
+ * Fetch an unencrypted artifact from a Walrus aggregator, re-hash it against
+ * artifact.hash, then offer it for download or inline preview
+ */
+export function StoredFileButton({ certificate }: { certificate: OpenTruthCertificate }) {
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [fetched, setFetched] = useState<CheckedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Release the content when it is replaced or the view closes
+  useEffect(() => {
+    if (!fetched) return;
+    return () => URL.revokeObjectURL(fetched.url);
+  }, [fetched]);
+
+  const handleFetch = async () => {
+    setLoading(true);
+    setFetched(null);
+    setError(null);
+    try {
+      setProgress('Downloading...');
+      const blob = await readFromWalrus(certificate.storage.walrusBlobId);
+      setFetched(await checkFileAgainstCertificate(blob, certificate, {
+        onProgress: ({ bytesHashed, totalBytes }) =>
+          setProgress(`Verifying... ${Math.floor((bytesHashed / (totalBytes || 1)) * 100)}%`),
+      }));
+    } catch (err) {
+      console.error('Fetching stored file failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch file');
+    } finally {
+      setLoading(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button onClick={handleFetch} disabled={loading} size="sm" variant="outline">
+        {loading ? progress || 'Downloading...' : fetched ? 'Fetch Again' : 'Fetch & Verify File'}
+      </Button>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+      {fetched && <CheckedFilePanel certificate={certificate} file={fetched} label="Stored file" />}
+    </div>
+  );
+}
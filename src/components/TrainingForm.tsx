@@ -0,0 +1,552 @@
+import { useState } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
+import type { OpenTruthCertificate, TrainingCheckpoint } from '../types';
+import { hashBytes } from '../lib/crypto';
+import { completeCertificate, generateCertificate, validateCertificate } from '../lib/certificate';
+import { signCertificate } from '../lib/sui';
+import {
+  getCertificate,
+  uploadCertificate,
+  uploadToWalrus,
+  type WalrusUploadOptions,
+  type WalrusUploadResponse,
+} from '../lib/walrus';
+import { getAllCertificates, saveCertificate } from '../lib/storage';
+import { anchorCertificate, isAnchoringConfigured } from '../lib/anchor';
+import { addEncryptionToCertificate } from '../lib/seal-encryption';
+import {
+  CHECKPOINT_TAG,
+  createCheckpoint,
+  createCheckpointFile,
+  createRunId,
+  encryptCheckpoint,
+  getRunHead,
+  getTrainingRuns,
+  serializeCheckpoint,
+  verifyCheckpointDataset,
+} from '../lib/training';
+import { DEFAULT_STORAGE_EPOCHS, toBlobLifetime } from '../lib/lifetime';
+import { getActiveNetwork } from '../config/networks';
+import { Card } from './ui/card';
+import { Alert } from './ui/alert';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { CertificateDisplay } from './CertificateDisplay';
+import { AnchorPanel } from './AnchorPanel';
+import { StorageDurationSelect } from './StorageDurationSelect';
+
+/**
+ * Parse an optional numeric field; empty means unset
+ */
+function parseOptionalNumber(value: string, field: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`${field} must be a number`);
+  return parsed;
+}
+
+/**
+ * Record a training epoch as a hashed checkpoint, store it on Walrus
+ * (optionally Seal-encrypted) and certify it against its dataset
+ */
+export function TrainingForm({ onRecorded }: { onRecorded?: () => void }) {
+  const [runId, setRunId] = useState(''); // Empty starts a new run
+  const [datasetId, setDatasetId] = useState('');
+  const [datasetBlobId, setDatasetBlobId] = useState('');
+  const [modelName, setModelName] = useState('');
+  const [modelVersion, setModelVersion] = useState('');
+  const [epoch, setEpoch] = useState('1');
+  const [accuracy, setAccuracy] = useState('');
+  const [loss, setLoss] = useState('');
+  const [learningRate, setLearningRate] = useState('');
+  const [batchSize, setBatchSize] = useState('');
+  const [optimizer, setOptimizer] = useState('');
+  const [encrypt, setEncrypt] = useState(true);
+  const [storageEpochs, setStorageEpochs] = useState(DEFAULT_STORAGE_EPOCHS);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    checkpoint: TrainingCheckpoint;
+    certificate: OpenTruthCertificate;
+    certificateBlobId: string;
+    anchorDigest?: string;
+    anchorError?: string;
+  } | null>(null);
+
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const { mutateAsync: signMessage } = useSignPersonalMessage();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+
+  const datasets = getAllCertificates().filter((entry) => entry.certificate.dataset);
+  const runs = getTrainingRuns();
+  const run = runs.find((r) => r.runId === runId);
+  const head = run && getRunHead(run);
+  // A continued run keeps the dataset its first checkpoint was trained on
+  const runDatasetBlobId = head?.certificate.references?.find((r) => r.relation === 'trainedOn')?.certificateBlobId;
+
+  const handleSelectRun = (id: string) => {
+    setRunId(id);
+    const selected = runs.find((r) => r.runId === id);
+    if (!selected) return;
+
+    const latest = getRunHead(selected);
+    setModelName(selected.modelName);
+    setModelVersion(latest.certificate.model?.version ?? '');
+    if (latest.checkpoint) setEpoch(String(latest.checkpoint.epoch + 1));
+  };
+
+  // A pasted blob ID takes precedence over the library selection
+  const loadDataset = async (): Promise<{ blobId: string; certificate: OpenTruthCertificate }> => {
+    if (runDatasetBlobId) {
+      const entry = getAllCertificates().find((c) => c.id === runDatasetBlobId);
+      if (entry) return { blobId: entry.id, certificate: entry.certificate };
+    }
+
+    const blobId = runDatasetBlobId ?? datasetBlobId.trim();
+    if (!blobId) {
+      const entry = datasets.find((d) => d.id === datasetId);
+      if (!entry) throw new Error('Choose a dataset certificate');
+      return { blobId: entry.id, certificate: entry.certificate };
+    }
+
+    setProgress('Fetching dataset certificate...');
+    const certificate = await getCertificate(blobId);
+    if (!validateCertificate(certificate) || !certificate.dataset) {
+      throw new Error('That blob is not a dataset certificate');
+    }
+    return { blobId, certificate };
+  };
+
+  const handleRecord = async () => {
+    if (!account) {
+      setError('Please connect your wallet');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const epochNumber = Number(epoch);
+      if (!Number.isInteger(epochNumber) || epochNumber < 0) throw new Error('Epoch must be a whole number');
+      const accuracyValue = parseOptionalNumber(accuracy, 'Accuracy');
+      const lossValue = parseOptionalNumber(loss, 'Loss');
+      if (accuracyValue === undefined || lossValue === undefined) throw new Error('Enter accuracy and loss');
+      if (!modelName.trim()) throw new Error('Enter a model name');
+      if (run && !run.chain.intact) {
+        throw new Error(`This run's hash chain is broken (${run.chain.reason}). Start a new run.`);
+      }
+      if (head?.checkpoint && epochNumber <= head.checkpoint.epoch) {
+        throw new Error(`Epoch must be after epoch ${head.checkpoint.epoch}, the latest in this run`);
+      }
+
+      // 1. Resolve the dataset this epoch was trained on
+      const dataset = await loadDataset();
+      const datasetMerkleRoot = dataset.certificate.dataset!.merkleRoot;
+
+      // 2. Hash the checkpoint record, chained to the run's latest checkpoint
+      setProgress('Hashing checkpoint...');
+      const checkpointRunId = run?.runId ?? createRunId();
+      const checkpoint = await createCheckpoint({
+        epoch: epochNumber,
+        runId: checkpointRunId,
+        previousCheckpointHash: head?.certificate.model?.checkpointHash,
+        accuracy: accuracyValue,
+        loss: lossValue,
+        datasetMerkleRoot,
+        timestamp: Date.now(),
+        modelName: modelName.trim(),
+        modelVersion: modelVersion.trim() || undefined,
+        hyperparameters: {
+          learningRate: parseOptionalNumber(learningRate, 'Learning rate'),
+          batchSize: parseOptionalNumber(batchSize, 'Batch size'),
+          optimizer: optimizer.trim() || undefined,
+        },
+      });
+      if (!verifyCheckpointDataset(checkpoint, datasetMerkleRoot)) {
+        throw new Error('Checkpoint does not reference the selected dataset');
+      }
+
+      // 3. Certify the plaintext record; it references the dataset certificate
+      // and, within a run, the previous checkpoint's certificate
+      const baseCert = await generateCertificate({
+        file: createCheckpointFile(checkpoint),
+        suiAddress: account.address,
+        modelInfo: {
+          name: modelName.trim(),
+          version: checkpoint.modelVersion,
+          checkpointHash: checkpoint.checkpointHash,
+          datasetMerkleRoot,
+          runId: checkpoint.runId,
+          previousCheckpointHash: checkpoint.previousCheckpointHash,
+        },
+        references: [
+          {
+            relation: 'trainedOn',
+            certificateBlobId: dataset.blobId,
+            artifactHash: dataset.certificate.artifact.hash,
+          },
+          ...(head ? [{
+            relation: 'derivedFrom' as const,
+            certificateBlobId: head.certificateBlobId,
+            artifactHash: head.certificate.artifact.hash,
+          }] : []),
+        ],
+      });
+
+      // 4. Store the record on Walrus, encrypted for the owner if requested
+      const walrusOptions = (label: string): WalrusUploadOptions => ({
+        epochs: storageEpochs,
+        onProgress: ({ loaded, total }) =>
+          setProgress(`${label}... ${Math.floor((loaded / (total || 1)) * 100)}%`),
+      });
+
+      let certToSign = baseCert;
+      let recordUpload: WalrusUploadResponse;
+      if (encrypt) {
+        setProgress('Encrypting checkpoint with Seal...');
+        const { encryptedData, metadata } = await encryptCheckpoint(checkpoint, account.address, client);
+        recordUpload = await uploadToWalrus(
+          new Blob([encryptedData.buffer as ArrayBuffer]),
+          walrusOptions('Uploading encrypted checkpoint')
+        );
+        certToSign = addEncryptionToCertificate(
+          baseCert,
+          recordUpload.blobId,
+          metadata.keyId,
+          metadata.threshold,
+          undefined,
+          undefined,
+          await hashBytes(encryptedData)
+        );
+      } else {
+        recordUpload = await uploadToWalrus(
+          new Blob([serializeCheckpoint(checkpoint)], { type: 'application/json' }),
+          walrusOptions('Uploading checkpoint')
+        );
+      }
+
+      // 5. Sign, complete and upload the certificate
+      setProgress('Signing certificate...');
+      certToSign.timestamp = Date.now(); // Keep uploads out of the anchor delay
+      const { signature, publicKey, scheme } = await signCertificate(certToSign, signMessage);
+      const finalCert = completeCertificate(
+        certToSign,
+        { signature: { scheme, signature, publicKey } },
+        {
+          walrusBlobId: recordUpload.blobId,
+          network: getActiveNetwork(),
+          uploadedAt: recordUpload.uploadedAt,
+          endEpoch: recordUpload.endEpoch,
+        }
+      );
+
+      const certUpload = await uploadCertificate(finalCert, walrusOptions('Uploading certificate'));
+
+      setProgress('Saving to storage...');
+      saveCertificate(certUpload.blobId, finalCert, {
+        tags: [CHECKPOINT_TAG],
+        notes: `Epoch ${checkpoint.epoch} · accuracy ${checkpoint.accuracy} · loss ${checkpoint.loss}`,
+        checkpoint,
+        storageLifetime: {
+          certificate: toBlobLifetime(certUpload),
+          file: toBlobLifetime(recordUpload),
+        },
+      });
+
+      // 6. Anchor on Sui (optional; a failure can be retried from the result view)
+      let anchorDigest: string | undefined;
+      let anchorError: string | undefined;
+      if (isAnchoringConfigured()) {
+        setProgress('Anchoring certificate on Sui...');
+        try {
+          anchorDigest = await anchorCertificate(client, signAndExecute, certUpload.blobId, finalCert.artifact.hash);
+        } catch (err) {
+          anchorError = err instanceof Error ? err.message : 'Anchoring failed';
+        }
+      }
+
+      setResult({
+        checkpoint,
+        certificate: finalCert,
+        certificateBlobId: certUpload.blobId,
+        anchorDigest,
+        anchorError,
+      });
+      setRunId(checkpointRunId);
+      setEpoch(String(checkpoint.epoch + 1));
+      setAccuracy('');
+      setLoss('');
+      onRecorded?.();
+    } catch (err) {
+      console.error('Checkpoint recording failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record checkpoint');
+    } finally {
+      setLoading(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold mb-2">Training Provenance</h2>
+        <p className="text-sm text-gray-600">
+          Record each training epoch as a hashed checkpoint that references the dataset it was trained on.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm font-medium">Error</p>
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {!account && (
+        <Alert>
+          <p className="text-sm font-medium">Wallet Required</p>
+          <p className="text-sm">Please connect your Sui wallet to continue.</p>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="p-3 bg-green-50 rounded-md border border-green-200">
+            <p className="text-sm font-medium text-green-900">
+              ✅ Epoch {result.checkpoint.epoch} recorded
+            </p>
+            <p className="text-xs text-gray-700 mt-2">Checkpoint Hash</p>
+            <p className="text-xs font-mono break-all">{result.checkpoint.checkpointHash}</p>
+            <p className="text-xs text-gray-700 mt-2">Certificate Blob ID</p>
+            <p className="text-xs font-mono break-all">{result.certificateBlobId}</p>
+            <p className="text-xs text-gray-600 mt-2">
+              Select this checkpoint under Model Information on the Upload page to certify outputs of this model.
+            </p>
+          </div>
+          <AnchorPanel
+            certificateBlobId={result.certificateBlobId}
+            artifactHash={result.certificate.artifact.hash}
+            digest={result.anchorDigest}
+            error={result.anchorError}
+          />
+          <details className="text-sm">
+            <summary className="cursor-pointer font-medium text-gray-700 hover:underline">Certificate Details</summary>
+            <div className="mt-3">
+              <CertificateDisplay certificate={result.certificate} certificateBlobId={result.certificateBlobId} />
+            </div>
+          </details>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {/* Run */}
+        <div className="space-y-2">
+          <Label htmlFor="trainingRun">Training Run</Label>
+          <select
+            id="trainingRun"
+            className="h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+            value={runId}
+            onChange={(e) => handleSelectRun(e.target.value)}
+            disabled={loading}
+          >
+            <option value="">Start a new run</option>
+            {runs.map((r) => (
+              <option key={r.runId} value={r.runId}>
+                {r.modelName} · run {r.runId.slice(0, 8)} · {r.checkpoints.length} checkpoint(s)
+                {r.chain.intact ? '' : ' · chain broken'}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            Each checkpoint in a run links to the previous checkpoint's hash, so the run's history is append-only.
+          </p>
+        </div>
+
+        {/* Dataset */}
+        <div className="space-y-2">
+          <Label htmlFor="trainingDataset">Dataset Certificate *</Label>
+          <select
+            id="trainingDataset"
+            className="h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+            value={runDatasetBlobId ?? datasetId}
+            onChange={(e) => setDatasetId(e.target.value)}
+            disabled={loading || !!run || !!datasetBlobId.trim()}
+          >
+            <option value="">{datasets.length ? 'Choose from your library...' : 'No dataset certificates in your library'}</option>
+            {datasets.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.notes || 'Dataset'} · {entry.certificate.dataset!.merkleRoot.slice(0, 12)}…
+              </option>
+            ))}
+          </select>
+          <Input
+            id="trainingDatasetBlobId"
+            type="text"
+            placeholder="or paste a dataset certificate blob ID"
+            value={datasetBlobId}
+            onChange={(e) => setDatasetBlobId(e.target.value)}
+            disabled={loading || !!run}
+          />
+        </div>
+
+        {/* Model */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="trainingModelName">Model Name *</Label>
+            <Input
+              id="trainingModelName"
+              type="text"
+              placeholder="e.g., resnet-50-finetune"
+              value={modelName}
+              onChange={(e) => setModelName(e.target.value)}
+              disabled={loading || !!run}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trainingModelVersion">Model Version</Label>
+            <Input
+              id="trainingModelVersion"
+              type="text"
+              placeholder="e.g., v1"
+              value={modelVersion}
+              onChange={(e) => setModelVersion(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+        </div>
+
+        {/* Metrics */}
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-3">Epoch Metrics</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="trainingEpoch">Epoch *</Label>
+              <Input
+                id="trainingEpoch"
+                type="number"
+                min={0}
+                step={1}
+                value={epoch}
+                onChange={(e) => setEpoch(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trainingAccuracy">Accuracy *</Label>
+              <Input
+                id="trainingAccuracy"
+                type="number"
+                step="any"
+                placeholder="0.92"
+                value={accuracy}
+                onChange={(e) => setAccuracy(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trainingLoss">Loss *</Label>
+              <Input
+                id="trainingLoss"
+                type="number"
+                step="any"
+                placeholder="0.31"
+                value={loss}
+                onChange={(e) => setLoss(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Hyperparameters */}
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-3">Hyperparameters (Optional)</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="trainingLearningRate">Learning Rate</Label>
+              <Input
+                id="trainingLearningRate"
+                type="number"
+                step="any"
+                placeholder="0.001"
+                value={learningRate}
+                onChange={(e) => setLearningRate(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trainingBatchSize">Batch Size</Label>
+              <Input
+                id="trainingBatchSize"
+                type="number"
+                step={1}
+                placeholder="32"
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trainingOptimizer">Optimizer</Label>
+              <Input
+                id="trainingOptimizer"
+                type="text"
+                placeholder="adamw"
+                value={optimizer}
+                onChange={(e) => setOptimizer(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Encryption and storage */}
+        <div className="border-t pt-4 space-y-3">
+          <div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={encrypt}
+                onChange={(e) => setEncrypt(e.target.checked)}
+                disabled={loading}
+              />
+              Encrypt checkpoint record with Seal
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Only you can decrypt the metrics and hyperparameters. The checkpoint hash stays public in the certificate.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trainingStorageEpochs">Storage Duration</Label>
+            <StorageDurationSelect
+              id="trainingStorageEpochs"
+              epochs={storageEpochs}
+              onChange={setStorageEpochs}
+              disabled={loading}
+            />
+          </div>
+        </div>
+      </div>
+
+      <Button
+        onClick={handleRecord}
+        disabled={!account || loading || (!run && !datasetId && !datasetBlobId.trim())}
+        className="w-full"
+        size="lg"
+      >
+        {loading ? (
+          <span className="flex items-center gap-2">
+            <span className="animate-spin">⚙️</span>
+            <span>{progress || 'Processing...'}</span>
+          </span>
+        ) : (
+          'Record Checkpoint'
+        )}
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { getTrainingRuns, type RunCheckpoint, type TrainingRun } from '../lib/training';
+import { getWalrusExplorerUrl } from '../lib/walrus';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 24;
+
+interface MetricPoint {
+  epoch: number;
+  value: number;
+  entry: RunCheckpoint;
+}
+
+/**
+ * One metric across a run's epochs; every point links to its certificate
+ */
+function MetricChart({ label, color, points }: { label: string; color: string; points: MetricPoint[] }) {
+  const epochs = points.map((p) => p.epoch);
+  const values = points.map((p) => p.value);
+  const minEpoch = Math.min(...epochs);
+  const epochSpan = Math.max(...epochs) - minEpoch || 1;
+  const minValue = Math.min(0, ...values);
+  const valueSpan = Math.max(...values) - minValue || 1;
+
+  const x = (epoch: number) => CHART_PADDING + ((epoch - minEpoch) / epochSpan) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - minValue) / valueSpan) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-700">{label}</p>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${label} by epoch`}>
+        <line
+          x1={CHART_PADDING}
+          y1={CHART_HEIGHT - CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y2={CHART_HEIGHT - CHART_PADDING}
+          stroke="#e5e7eb"
+        />
+        <polyline
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          points={points.map((p) => `${x(p.epoch)},${y(p.value)}`).join(' ')}
+        />
+        {points.map((p) => (
+          <a key={p.entry.certificateBlobId} href={getWalrusExplorerUrl(p.entry.certificateBlobId)} target="_blank" rel="noopener noreferrer">
+            <circle cx={x(p.epoch)} cy={y(p.value)} r={5} fill={color} className="hover:opacity-70">
+              <title>{`Epoch ${p.epoch}: ${label.toLowerCase()} ${p.value} (certificate ${p.entry.certificateBlobId})`}</title>
+            </circle>
+            <text x={x(p.epoch)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#6b7280">
+              {p.epoch}
+            </text>
+          </a>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+function RunTimeline({ run }: { run: TrainingRun }) {
+  // Metrics are only known for checkpoints whose record is in this library
+  const recorded = run.checkpoints.filter((c): c is RunCheckpoint & { checkpoint: NonNullable<RunCheckpoint['checkpoint']> } => !!c.checkpoint);
+  const accuracy = recorded.map((c) => ({ epoch: c.checkpoint.epoch, value: c.checkpoint.accuracy, entry: c }));
+  const loss = recorded.map((c) => ({ epoch: c.checkpoint.epoch, value: c.checkpoint.loss, entry: c }));
+  const brokenEntry = run.chain.brokenAt !== undefined ? run.checkpoints[run.chain.brokenAt] : undefined;
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold">{run.modelName}</p>
+          <p className="text-xs font-mono text-gray-500 break-all">run {run.runId}</p>
+        </div>
+        {run.chain.intact ? (
+          <Badge variant="outline" className="border-green-400 text-green-700">
+            {run.checkpoints.length} checkpoint(s), hash chain intact
+          </Badge>
+        ) : (
+          <Badge variant="destructive">hash chain broken</Badge>
+        )}
+      </div>
+
+      {!run.chain.intact && (
+        <p className="text-xs text-red-700">
+          {run.chain.reason}
+          {brokenEntry && (
+            <>
+              {' '}at certificate <span className="font-mono break-all">{brokenEntry.certificateBlobId}</span>
+            </>
+          )}
+        </p>
+      )}
+
+      {recorded.length > 0 ? (
+        <div className="space-y-2">
+          <MetricChart label="Accuracy" color="#2563eb" points={accuracy} />
+          <MetricChart label="Loss" color="#dc2626" points={loss} />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No checkpoint records of this run are stored in this library.</p>
+      )}
+      {recorded.length > 0 && recorded.length < run.checkpoints.length && (
+        <p className="text-xs text-gray-500">
+          {run.checkpoints.length - recorded.length} checkpoint(s) have no local record and are not plotted.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Accuracy and loss across the epochs of each training run
+ */
+export function TrainingTimeline() {
+  const runs = getTrainingRuns();
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Training Runs ({runs.length})</h3>
+        <p className="text-sm text-gray-600">
+          Checkpoints in hash-chain order. Click a point to open its certificate.
+        </p>
+      </div>
+
+      {runs.length === 0 && <p className="text-sm text-gray-500">No training runs recorded yet.</p>}
+
+      {runs.map((run) => (
+        <RunTimeline key={run.runId} run={run} />
+      ))}
+    </Card>
+  );
+}
@@ -1,16 +1,30 @@
-import { useState } from "react";
-import { useCurrentAccount, useSignPersonalMessage, useSuiClient } from "@mysten/dapp-kit";
-import type { OpenTruthCertificate } from "../types";
-import { completeCertificate, generateCertificate } from "../lib/certificate";
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from "@mysten/dapp-kit";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { CertificateReference, OpenTruthCertificate } from "../types";
+import { completeCertificate, generateCertificate, normalizeReferences } from "../lib/certificate";
 import { signCertificate } from "../lib/sui";
-import { getWalrusExplorerUrl, uploadCertificate, uploadToWalrus } from "../lib/walrus";
+import { getWalrusExplorerUrl, uploadCertificate, uploadToWalrus, type WalrusUploadOptions, type WalrusUploadResponse } from "../lib/walrus";
+import { saveCertificate } from "../lib/storage";
+import { anchorCertificate, isAnchoringConfigured } from "../lib/anchor";
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { CertificateDisplay } from "./CertificateDisplay";
+import { ReferencesEditor } from "./ReferencesEditor";
+import { AnchorPanel } from "./AnchorPanel";
 import { Alert } from "./ui/alert";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
-import { addEncryptionToCertificate, encryptFileWithSeal } from "@/lib/seal-encryption";
+import { addEncryptionToCertificate, encryptFileWithSeal, type SealPolicy } from "@/lib/seal-encryption";
+import { createAllowlist, parseGrantees } from "@/lib/seal-policy";
+import { getActiveNetwork } from "../config/networks";
+import { DEFAULT_STORAGE_EPOCHS, toBlobLifetime } from "../lib/lifetime";
+import { StorageDurationSelect } from "./StorageDurationSelect";
+import { CHUNK_MANIFEST_MIN_FILE_SIZE, CHUNK_SIZES, DEFAULT_CHUNK_SIZE, formatChunkSize } from "../lib/chunks";
+import { getCheckpointCertificates } from "../lib/training";
+
+type AccessMode = "owner" | "allowlist" | "timelock";
 
 export function UploadForm() {
   const [file, setFile] = useState<File | null>(null);
@@ -19,22 +33,56 @@ export function UploadForm() {
   const [prompt, setPrompt] = useState("");
   const [checkpointHash, setCheckpointHash] = useState("");
   const [datasetMerkleRoot, setDatasetMerkleRoot] = useState("");
+  const [references, setReferences] = useState<CertificateReference[]>([]);
+  const [encrypt, setEncrypt] = useState(true);
+  const [accessMode, setAccessMode] = useState<AccessMode>("owner");
+  const [grantees, setGrantees] = useState("");
+  const [embargoUntil, setEmbargoUntil] = useState("");
+  const [chunkManifest, setChunkManifest] = useState(false);
+  const [chunkSize, setChunkSize] = useState(DEFAULT_CHUNK_SIZE);
+  const [storageEpochs, setStorageEpochs] = useState(DEFAULT_STORAGE_EPOCHS);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<{
     certificate: OpenTruthCertificate;
     certificateBlobId: string;
     fileBlobId: string;
+    anchorDigest?: string;
+    anchorError?: string;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<string>("");
+  const uploadAbort = useRef<AbortController | null>(null);
   const client = useSuiClient();
 
   const account = useCurrentAccount();
   const { mutateAsync: signMessage } = useSignPersonalMessage();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+
+  const checkpoints = getCheckpointCertificates();
+  const selectedCheckpoint = checkpoints.find((c) => c.certificate.model?.checkpointHash === checkpointHash);
+
+  // Fill in the model from a recorded checkpoint and link its certificate
+  const handleSelectCheckpoint = (id: string) => {
+    const entry = checkpoints.find((c) => c.id === id);
+    const model = entry?.certificate.model;
+    if (!entry || !model) return;
+
+    setCheckpointHash(model.checkpointHash ?? "");
+    setDatasetMerkleRoot(model.datasetMerkleRoot ?? "");
+    if (!modelName) setModelName(model.name);
+    if (!modelVersion && model.version) setModelVersion(model.version);
+    if (!references.some((r) => r.certificateBlobId === entry.id)) {
+      setReferences([
+        ...references,
+        { relation: "trainedOn", certificateBlobId: entry.id, artifactHash: entry.certificate.artifact.hash },
+      ]);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0] || null;
     setFile(selectedFile);
+    setChunkManifest((selectedFile?.size ?? 0) >= CHUNK_MANIFEST_MIN_FILE_SIZE);
     setError(null);
     setResult(null);
   };
@@ -45,6 +93,33 @@ export function UploadForm() {
       return;
     }
 
+    const { addresses: granteeAddresses, invalid } = parseGrantees(grantees);
+    if (encrypt && accessMode === "allowlist" && invalid.length > 0) {
+      setError(`Invalid Sui address: ${invalid.join(", ")}`);
+      return;
+    }
+
+    const unlockAt = new Date(embargoUntil).getTime();
+    if (encrypt && accessMode === "timelock" && !(unlockAt > Date.now())) {
+      setError("Choose an embargo date in the future");
+      return;
+    }
+
+    // Cancels pending Walrus uploads (and their retries)
+    const controller = new AbortController();
+    uploadAbort.current = controller;
+
+    const walrusOptions = (label: string): WalrusUploadOptions => ({
+      epochs: storageEpochs,
+      signal: controller.signal,
+      onProgress: ({ loaded, total }) =>
+        setProgress(`${label}... ${Math.floor((loaded / (total || 1)) * 100)}%`),
+      onRetry: ({ attempt, maxAttempts, endpoint, delayMs }) =>
+        setProgress(
+          `${label} failed, retrying via ${new URL(endpoint).host} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts})...`
+        ),
+    });
+
     try {
       setLoading(true);
       setProgress("Hashing file...");
@@ -60,70 +135,128 @@ export function UploadForm() {
           checkpointHash: checkpointHash || undefined,
           datasetMerkleRoot: datasetMerkleRoot || undefined,
         } : undefined,
+        references: normalizeReferences(references),
+        chunkSize: chunkManifest ? chunkSize : undefined,
+        onHashProgress: ({ bytesHashed, totalBytes }) =>
+          setProgress(`Hashing file... ${Math.floor((bytesHashed / (totalBytes || 1)) * 100)}%`),
       });
 
-      setProgress("Encrypting file with Seal...");
-
-      // 2. Encrypt the file bytes
-      const {
-        encryptedData,
-        packageId,
-        keyId,
-        threshold,
-      } = await encryptFileWithSeal(file, account.address, client);
-
-      setProgress("Uploading encrypted file...");
+      // 2. Store the file: encrypted with Seal, or as plaintext for public content
+      let certToSign = baseCert;
+      let fileUpload: WalrusUploadResponse;
+      if (encrypt) {
+        // Create the access policy (the uploader is always a member)
+        let policy: SealPolicy = { type: "userOwned", owner: account.address };
+        if (accessMode === "allowlist") {
+          setProgress("Creating allowlist on Sui...");
+          const members = [...new Set([normalizeSuiAddress(account.address), ...granteeAddresses])];
+          const { allowlistId } = await createAllowlist(client, signAndExecute, members);
+          policy = { type: "allowlist", owner: account.address, allowlist: members, allowlistId };
+        } else if (accessMode === "timelock") {
+          policy = { type: "timelock", owner: account.address, unlockAt };
+        }
 
-      // 3. Upload encrypted file to Walrus
-      const encryptedBlob = new Blob([encryptedData.buffer as ArrayBuffer]);
-      const fileUpload = await uploadToWalrus(encryptedBlob);
+        setProgress("Encrypting file with Seal...");
+
+        // Encrypt the file bytes
+        const {
+          encryptedData,
+          packageId,
+          keyId,
+          threshold,
+          ciphertextHash,
+        } = await encryptFileWithSeal(file, account.address, client, {
+          allowlistId: policy.allowlistId,
+          unlockAt: policy.unlockAt,
+        });
+
+        setProgress("Uploading encrypted file...");
+
+        // Upload encrypted file to Walrus
+        const encryptedBlob = new Blob([encryptedData.buffer as ArrayBuffer]);
+        fileUpload = await uploadToWalrus(encryptedBlob, walrusOptions("Uploading encrypted file"));
+
+        // Attach encryption metadata so it is covered by the signature
+        certToSign = addEncryptionToCertificate(
+          baseCert,
+          fileUpload.blobId,
+          keyId,
+          threshold,
+          packageId,
+          policy,
+          ciphertextHash
+        );
+      } else {
+        // No Seal key servers involved; `encryption` is omitted
+        setProgress("Uploading file...");
+        fileUpload = await uploadToWalrus(file, walrusOptions("Uploading file"));
+      }
 
       setProgress("Signing certificate...");
 
-      // 4. Sign certificate (plaintext metadata remains public)
-      const { signature, publicKey } = await signCertificate(baseCert, signMessage);
+      // 3. Sign certificate (plaintext metadata remains public). The timestamp
+      // is taken now so the anchor delay excludes hashing and uploads.
+      certToSign.timestamp = Date.now();
+      const { signature, publicKey, scheme } = await signCertificate(certToSign, signMessage);
 
       setProgress("Uploading certificate...");
 
-      // 5. Complete certificate with encryption metadata
-      const completeCert = completeCertificate(
-        baseCert,
+      // 4. Complete certificate with proofs and storage
+      const finalCert = completeCertificate(
+        certToSign,
         {
           signature: {
-            scheme: "ED25519" as const,
+            scheme,
             signature,
             publicKey,
           },
         },
         {
           walrusBlobId: fileUpload.blobId, 
-          network: "localnet", 
+          network: getActiveNetwork(),
           uploadedAt: fileUpload.uploadedAt,
+          endEpoch: fileUpload.endEpoch,
         }
       );
 
-      // 6. Add encryption info
-      const finalCert = addEncryptionToCertificate(
-        completeCert,
-        fileUpload.blobId,
-        keyId,
-        threshold,
-        packageId
-      );
+      // 5. Upload certificate to Walrus (public for verification)
+      const certUpload = await uploadCertificate(finalCert, walrusOptions("Uploading certificate"));
+      const certBlobId = certUpload.blobId;
 
-      // 7. Upload certificate to Walrus (public for verification)
-      const certBlobId = await uploadCertificate(finalCert);
+      setProgress("Saving to storage...");
+      saveCertificate(certBlobId, finalCert, {
+        tags: modelName ? ["ai-output"] : [],
+        storageLifetime: {
+          certificate: toBlobLifetime(certUpload),
+          file: toBlobLifetime(fileUpload),
+        },
+      });
+
+      // 6. Anchor on Sui (optional; a failure can be retried from the result view)
+      let anchorDigest: string | undefined;
+      let anchorError: string | undefined;
+      if (isAnchoringConfigured()) {
+        setProgress("Anchoring certificate on Sui...");
+        try {
+          anchorDigest = await anchorCertificate(client, signAndExecute, certBlobId, finalCert.artifact.hash);
+        } catch (err) {
+          anchorError = err instanceof Error ? err.message : "Anchoring failed";
+        }
+      }
 
       setResult({
         certificate: finalCert,
         certificateBlobId: certBlobId,
         fileBlobId: fileUpload.blobId,
+        anchorDigest,
+        anchorError,
       });
 
     } catch (err) {
       console.error("Upload failed:", err);
-      setError(err instanceof Error ? err.message : "Upload failed");
+      setError(controller.signal.aborted ? "Upload cancelled" : err instanceof Error ? err.message : "Upload failed");
     } finally {
+      uploadAbort.current = null;
       setLoading(false);
       setProgress("");
     }
@@ -138,6 +271,14 @@ export function UploadForm() {
     setPrompt("");
     setCheckpointHash("");
     setDatasetMerkleRoot("");
+    setReferences([]);
+    setEncrypt(true);
+    setAccessMode("owner");
+    setGrantees("");
+    setEmbargoUntil("");
+    setChunkManifest(false);
+    setChunkSize(DEFAULT_CHUNK_SIZE);
+    setStorageEpochs(DEFAULT_STORAGE_EPOCHS);
   };
 
   if (result) {
@@ -169,12 +310,35 @@ export function UploadForm() {
             <p className="text-xs font-mono mt-1 break-all">{result.fileBlobId}</p>
           </div>
 
+          <AnchorPanel
+            certificateBlobId={result.certificateBlobId}
+            artifactHash={result.certificate.artifact.hash}
+            digest={result.anchorDigest}
+            error={result.anchorError}
+          />
+
+          <p className="text-xs text-gray-600">
+            Saved to your <Link to="/certificates" className="text-blue-600 hover:underline">certificate library</Link>.
+          </p>
+
           {/* Encryption Status */}
+          {!result.certificate.encryption?.enabled && (
+            <div className="p-3 bg-gray-50 rounded-md border">
+              <p className="text-sm font-medium text-gray-900">🌐 Public Upload</p>
+              <p className="text-xs text-gray-700 mt-1">
+                File content is stored as plaintext. Anyone can fetch it from a Walrus aggregator and verify it against this certificate.
+              </p>
+            </div>
+          )}
           {result.certificate.encryption?.enabled && (
             <div className="p-3 bg-purple-50 rounded-md border border-purple-200">
               <p className="text-sm font-medium text-purple-900">🔐 Seal Encryption: Enabled</p>
               <p className="text-xs text-purple-700 mt-1">
-                File content is encrypted. Only the owner can decrypt.
+                {result.certificate.encryption.policy?.type === "allowlist"
+                  ? `File content is encrypted. ${result.certificate.encryption.policy.allowlist?.length ?? 0} allowlisted account(s) can decrypt; manage grantees from the certificate library.`
+                  : result.certificate.encryption.policy?.type === "timelock"
+                    ? `File content is embargoed. Anyone can decrypt after ${new Date(result.certificate.encryption.policy.unlockAt ?? 0).toLocaleString()}.`
+                    : "File content is encrypted. Only the owner can decrypt."}
               </p>
             </div>
           )}
@@ -224,6 +388,31 @@ export function UploadForm() {
               Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
             </p>
           )}
+          <div className="flex items-center gap-2 text-xs text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={chunkManifest}
+                onChange={(e) => setChunkManifest(e.target.checked)}
+                disabled={loading}
+              />
+              Include chunk manifest with
+            </label>
+            <select
+              className="rounded border border-input bg-transparent px-1 py-0.5"
+              value={chunkSize}
+              onChange={(e) => setChunkSize(Number(e.target.value))}
+              disabled={loading || !chunkManifest}
+            >
+              {CHUNK_SIZES.map((size) => (
+                <option key={size} value={size}>{formatChunkSize(size)}</option>
+              ))}
+            </select>
+            chunks
+          </div>
+          <p className="text-xs text-gray-500">
+            Per-chunk hashes let verifiers check partial downloads and see which parts of a modified file changed. Recommended for large videos and datasets.
+          </p>
         </div>
 
         {/* Model Information (Optional) */}
@@ -269,6 +458,22 @@ export function UploadForm() {
 
             <div className="space-y-2">
               <Label htmlFor="checkpointHash">Checkpoint Hash</Label>
+              {checkpoints.length > 0 && (
+                <select
+                  aria-label="Recorded checkpoint"
+                  className="h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                  value={selectedCheckpoint?.id ?? ""}
+                  onChange={(e) => handleSelectCheckpoint(e.target.value)}
+                  disabled={loading}
+                >
+                  <option value="">Choose a recorded checkpoint...</option>
+                  {checkpoints.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.certificate.model?.name}{entry.notes && ` · ${entry.notes}`}
+                    </option>
+                  ))}
+                </select>
+              )}
               <Input
                 id="checkpointHash"
                 type="text"
@@ -292,6 +497,121 @@ export function UploadForm() {
             </div>
           </div>
         </div>
+
+        {/* Decryption Access */}
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-1">Decryption Access</h3>
+          <label className="flex items-center gap-2 text-sm mb-1">
+            <input
+              type="checkbox"
+              checked={encrypt}
+              onChange={(e) => setEncrypt(e.target.checked)}
+              disabled={loading}
+            />
+            Encrypt with Seal
+          </label>
+          <p className="text-xs text-gray-600 mb-3">
+            {encrypt
+              ? "The file is encrypted with Seal. Choose who can request decryption keys."
+              : "The file is stored on Walrus as plaintext, so anyone can download, preview and verify it. Use this for public content such as press images."}
+          </p>
+          {encrypt && (
+            <div className="space-y-3">
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="accessMode"
+                    checked={accessMode === "owner"}
+                    onChange={() => setAccessMode("owner")}
+                    disabled={loading}
+                  />
+                  Only me
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="accessMode"
+                    checked={accessMode === "allowlist"}
+                    onChange={() => setAccessMode("allowlist")}
+                    disabled={loading}
+                  />
+                  Allowlist
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="accessMode"
+                    checked={accessMode === "timelock"}
+                    onChange={() => setAccessMode("timelock")}
+                    disabled={loading}
+                  />
+                  Embargo
+                </label>
+              </div>
+
+              {accessMode === "allowlist" && (
+                <div className="space-y-2">
+                  <Label htmlFor="grantees">Grantee Addresses</Label>
+                  <textarea
+                    id="grantees"
+                    className="w-full min-h-20 rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono"
+                    placeholder="0x..., one per line"
+                    value={grantees}
+                    onChange={(e) => setGrantees(e.target.value)}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Creates an allowlist on Sui that you can update later. You are always included.
+                  </p>
+                </div>
+              )}
+
+              {accessMode === "timelock" && (
+                <div className="space-y-2">
+                  <Label htmlFor="embargoUntil">Embargo Until</Label>
+                  <Input
+                    id="embargoUntil"
+                    type="datetime-local"
+                    value={embargoUntil}
+                    onChange={(e) => setEmbargoUntil(e.target.value)}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Nobody, including you, can decrypt before this time. Afterwards anyone can. The Sui clock decides when the embargo lifts.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Storage Duration */}
+        <div className="border-t pt-4 space-y-2">
+          <Label htmlFor="storageEpochs">Storage Duration</Label>
+          <StorageDurationSelect
+            id="storageEpochs"
+            epochs={storageEpochs}
+            onChange={setStorageEpochs}
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-500">
+            How long Walrus keeps the file and certificate. Renew from the certificate library before they expire.
+          </p>
+        </div>
+
+        {/* Certificate References (Optional) */}
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-1">Related Certificates (Optional)</h3>
+          <p className="text-xs text-gray-600 mb-3">
+            Link this certificate to the certificates it derives from, edits or supersedes.
+          </p>
+          <ReferencesEditor
+            references={references}
+            onChange={setReferences}
+            disabled={loading}
+          />
+        </div>
       </div>
 
       <div className="flex flex-col gap-2">
@@ -311,6 +631,12 @@ export function UploadForm() {
           )}
         </Button>
 
+        {loading && (
+          <Button onClick={() => uploadAbort.current?.abort()} variant="outline" className="w-full">
+            Cancel
+          </Button>
+        )}
+
         {loading && (
           <p className="text-xs text-center text-gray-600 animate-pulse">
             This may take a few seconds...
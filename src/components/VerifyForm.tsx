@@ -1,13 +1,46 @@
 import { useState } from "react";
-import { getCertificate, getWalrusExplorerUrl } from "../lib/walrus";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { getCertificate, getWalrusExplorerUrl, isBlobAvailable, readFromWalrus } from "../lib/walrus";
 import { validateCertificate, verifyFileMatchesCertificate } from "../lib/certificate";
 import { verifyCertificateSignature } from "../lib/sui";
+import { checkRevocation, type RevocationCheck } from "../lib/revocation";
+import { resolveCertificateBlobId } from "../lib/hash-index";
+import { locateModifiedRegions, type ChunkComparison } from "../lib/chunks";
+import { evaluateAnchor, getCertificateAnchor, isAnchoringConfigured, type AnchorCheck } from "../lib/anchor";
 import { Card } from "./ui/card";
 import { Alert } from "./ui/alert";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
 import { CertificateDisplay } from "./CertificateDisplay";
+import { RevocationBanner } from "./RevocationBanner";
+import { MembershipVerify } from "./MembershipVerify";
+import { LineageVerify } from "./LineageVerify";
+import { BatchVerify } from "./BatchVerify";
+import { CertificateLookup } from "./CertificateLookup";
+import { RangeVerify } from "./RangeVerify";
+import { EncryptedVerify } from "./EncryptedVerify";
+import { ModifiedRegions } from "./ModifiedRegions";
+
+type VerifyMode = "certificate" | "range" | "encrypted" | "batch" | "membership" | "lineage";
+
+type CertificateSource = "walrus" | "lookup" | "file" | "paste";
+
+const CERTIFICATE_SOURCES: Array<{ id: CertificateSource; label: string }> = [
+  { id: "walrus", label: "Blob ID" },
+  { id: "lookup", label: "Find by File" },
+  { id: "file", label: "JSON File" },
+  { id: "paste", label: "Paste JSON" },
+];
+
+const VERIFY_MODES: Array<{ id: VerifyMode; label: string }> = [
+  { id: "certificate", label: "Certificate" },
+  { id: "range", label: "Byte Range" },
+  { id: "encrypted", label: "Encrypted" },
+  { id: "batch", label: "Batch" },
+  { id: "membership", label: "Dataset Membership" },
+  { id: "lineage", label: "Lineage" },
+];
 
 interface VerificationResult {
   valid: boolean;
@@ -15,17 +48,55 @@ interface VerificationResult {
   checks: {
     structureValid: boolean;
     hashMatch: boolean;
+    chunks?: ChunkComparison; // Only set on a hash mismatch when the certificate has a chunk manifest
     signatureValid: boolean;
+    storageReachable?: boolean; // Only set when the optional storage check ran
+    anchor?: AnchorCheck; // Only set when anchoring is configured and the blob ID is known
+    revocation?: RevocationCheck; // Only set when the blob ID is known
+    certificateBlobId?: string; // Given, or resolved for certificates loaded from JSON
   };
   error?: string;
 }
 
+function AnchorCheckRow({ check }: { check: AnchorCheck }) {
+  const ok = check.status === "anchored";
+  const failed = check.status === "mismatch" || check.status === "timestamp_mismatch";
+  const label = {
+    anchored: `Anchored ${check.anchor ? new Date(check.anchor.timestampMs).toLocaleString() : ""}`,
+    anchored_late: `Anchored late ${check.anchor ? new Date(check.anchor.timestampMs).toLocaleString() : ""}`,
+    not_anchored: "Not anchored (timestamp unproven)",
+    mismatch: "Anchor does not match certificate",
+    timestamp_mismatch: "Timestamp disagrees with anchor",
+  }[check.status];
+
+  return (
+    <div className="flex items-start gap-2">
+      <span className={ok ? "text-green-600 font-bold" : failed ? "text-red-600 font-bold" : "text-amber-600 font-bold"}>
+        {ok ? "✓" : failed ? "✗" : "!"}
+      </span>
+      <span className="text-sm">
+        On-chain anchor: {" "}
+        <span className={ok ? "text-green-700" : failed ? "text-red-700" : "text-amber-700"}>{label}</span>
+        {check.detail && <span className="block text-xs text-gray-600">{check.detail}</span>}
+      </span>
+    </div>
+  );
+}
+
 export function VerifyForm() {
+  const [mode, setMode] = useState<VerifyMode>("certificate");
   const [file, setFile] = useState<File | null>(null);
   const [certBlobId, setCertBlobId] = useState("");
+  const [source, setSource] = useState<CertificateSource>("walrus");
+  const [certJsonFile, setCertJsonFile] = useState<File | null>(null);
+  const [certJsonText, setCertJsonText] = useState("");
+  const [jsonBlobId, setJsonBlobId] = useState(""); // Optional blob ID for JSON certificates
+  const [checkStorage, setCheckStorage] = useState(false);
+  const [useStoredFile, setUseStoredFile] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [progress, setProgress] = useState<string>("");
+  const client = useSuiClient();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0] || null;
@@ -33,8 +104,35 @@ export function VerifyForm() {
     setResult(null);
   };
 
+  const revocationStatus = result?.checks.revocation?.status;
+  const isRevoked = revocationStatus === "revoked" || revocationStatus === "superseded";
+  // Not a failure: hash, structure and signature stand, with a warning
+  const revocationUnchecked = !!result?.certificate && result.checks.structureValid && revocationStatus !== "active" && !isRevoked;
+
+  const hasCertificateInput =
+    source === "walrus" ? !!certBlobId.trim() :
+    source === "file" ? !!certJsonFile :
+    source === "paste" ? !!certJsonText.trim() :
+    false; // A lookup result must be picked first
+
+  // Load the certificate from Walrus or, offline, from a local file or pasted text
+  const loadCertificate = async () => {
+    if (source === "walrus") {
+      setProgress("Fetching certificate from Walrus...");
+      return getCertificate(certBlobId.trim());
+    }
+
+    setProgress("Reading certificate JSON...");
+    const text = source === "file" ? await certJsonFile!.text() : certJsonText;
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error("Certificate is not valid JSON");
+    }
+  };
+
   const handleVerify = async () => {
-    if (!file || !certBlobId.trim()) {
+    if ((!file && !useStoredFile) || !hasCertificateInput) {
       setResult({
         valid: false,
         checks: {
@@ -42,17 +140,16 @@ export function VerifyForm() {
           hashMatch: false,
           signatureValid: false,
         },
-        error: "Please provide both a file and certificate blob ID",
+        error: "Please provide both a file and a certificate",
       });
       return;
     }
 
     try {
       setLoading(true);
-      setProgress("Fetching certificate from Walrus...");
 
-      // 1. Fetch certificate from Walrus
-      const certificate = await getCertificate(certBlobId.trim());
+      // 1. Load certificate
+      const certificate = await loadCertificate();
 
       setProgress("Validating certificate structure...");
 
@@ -73,10 +170,32 @@ export function VerifyForm() {
         return;
       }
 
+      // 2b. Public uploads can be verified straight from the aggregator
+      let target = file;
+      if (useStoredFile) {
+        if (certificate.encryption?.enabled) {
+          throw new Error("The stored file is encrypted. Choose the original file, or use the Encrypted mode.");
+        }
+        if (certificate.dataset) {
+          throw new Error("Dataset certificates have no stored file. Verify individual files with Dataset Membership.");
+        }
+        setProgress("Fetching stored file from Walrus...");
+        const stored = await readFromWalrus(certificate.storage.walrusBlobId);
+        target = new File([stored], certificate.artifact.filename || "artifact", { type: certificate.artifact.mimeType });
+      }
+      if (!target) throw new Error("Please provide both a file and a certificate");
+
       setProgress("Hashing file for comparison...");
 
       // 3. Verify file hash matches certificate
-      const hashMatch = await verifyFileMatchesCertificate(file, certificate);
+      const hashMatch = await verifyFileMatchesCertificate(target, certificate);
+
+      // 3b. With a chunk manifest, find out which parts of the file changed
+      let chunks: ChunkComparison | undefined;
+      if (!hashMatch && certificate.artifact.chunks) {
+        setProgress("Locating modified regions...");
+        chunks = await locateModifiedRegions(target, certificate.artifact.chunks, certificate.artifact.size);
+      }
 
       setProgress("Verifying cryptographic signature...");
 
@@ -87,9 +206,59 @@ export function VerifyForm() {
         certificate.proofs.signature.publicKey
       );
 
+      // 5. Optionally confirm the stored artifact is still retrievable
+      // (informational only, so offline verification can still pass)
+      let storageReachable: boolean | undefined;
+      if (checkStorage) {
+        setProgress("Checking Walrus storage...");
+        storageReachable = await isBlobAvailable(certificate.storage.walrusBlobId);
+      }
+
+      // 6. Anchors and revocations are keyed by blob ID, which a certificate
+      // loaded from JSON has to be matched back to (offline, this can fail)
+      let certificateBlobId: string | undefined = certBlobId.trim();
+      if (source !== "walrus") {
+        setProgress("Looking up the certificate's blob ID...");
+        try {
+          certificateBlobId = await resolveCertificateBlobId(certificate, jsonBlobId);
+        } catch (err) {
+          console.warn("Blob ID lookup failed:", err);
+          certificateBlobId = undefined;
+        }
+      }
+
+      // 7. Compare with the on-chain anchor; an anchor that disagrees with the
+      // certificate (another artifact, a timestamp after it) fails verification
+      let anchor: AnchorCheck | undefined;
+      if (certificateBlobId && isAnchoringConfigured()) {
+        setProgress("Checking on-chain anchor...");
+        try {
+          const recorded = await getCertificateAnchor(client, certificateBlobId, certificate.author.suiAddress);
+          anchor = evaluateAnchor(certificate, recorded);
+        } catch (err) {
+          console.warn("Anchor lookup failed:", err);
+          anchor = { status: "not_anchored", detail: "Could not read the Sui registry" };
+        }
+      }
+
+      // 8. A revoked or superseded certificate is never reported as valid; an
+      // unchecked status is shown as a warning next to the other results
+      let revocation: RevocationCheck | undefined;
+      if (certificateBlobId) {
+        setProgress("Checking revocation status...");
+        try {
+          revocation = await checkRevocation(client, certificateBlobId, certificate);
+        } catch (err) {
+          console.warn("Revocation check failed:", err);
+          revocation = { status: "unknown", detail: "The revocation check failed" };
+        }
+      }
+
       setProgress("Complete!");
 
-      const allValid = structureValid && hashMatch && signatureValid;
+      const anchorValid = !anchor || (anchor.status !== "mismatch" && anchor.status !== "timestamp_mismatch");
+      const notRevoked = revocation?.status !== "revoked" && revocation?.status !== "superseded";
+      const allValid = structureValid && hashMatch && signatureValid && anchorValid && notRevoked;
 
       setResult({
         valid: allValid,
@@ -97,7 +266,12 @@ export function VerifyForm() {
         checks: {
           structureValid,
           hashMatch,
+          chunks,
           signatureValid,
+          storageReachable,
+          anchor,
+          revocation,
+          certificateBlobId,
         },
       });
     } catch (err) {
@@ -121,6 +295,9 @@ export function VerifyForm() {
     setResult(null);
     setFile(null);
     setCertBlobId("");
+    setCertJsonFile(null);
+    setCertJsonText("");
+    setJsonBlobId("");
   };
 
   return (
@@ -132,172 +309,359 @@ export function VerifyForm() {
         </p>
       </div>
 
-      {/* Verification Result */}
-      {result && (
-        <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
-          <div className="space-y-4">
-            <div className="flex items-center gap-3">
-              <span className="text-3xl">{result.valid ? "✅" : "❌"}</span>
-              <div>
-                <p className="font-semibold text-lg">
-                  {result.valid ? "Verification Passed!" : "Verification Failed"}
-                </p>
-                {result.error && (
-                  <p className="text-sm mt-1 text-gray-600">{result.error}</p>
+      {/* Mode Selector */}
+      <div className="flex gap-1 p-1 bg-gray-100 rounded-md">
+        {VERIFY_MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => setMode(m.id)}
+            className={`flex-1 px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+              mode === m.id ? "bg-white shadow-sm text-blue-700" : "text-gray-600 hover:text-gray-900"
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "range" && <RangeVerify />}
+
+      {mode === "encrypted" && <EncryptedVerify />}
+
+      {mode === "batch" && <BatchVerify />}
+
+      {mode === "membership" && <MembershipVerify />}
+
+      {mode === "lineage" && <LineageVerify />}
+
+      {mode === "certificate" && (
+        <>
+          {/* Verification Result */}
+          {result && (
+            <Alert variant={result.valid ? "default" : "destructive"} className="border-2">
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl">{result.valid ? (revocationUnchecked ? "⚠️" : "✅") : isRevoked ? "⛔" : "❌"}</span>
+                  <div>
+                    <p className="font-semibold text-lg">
+                      {result.valid
+                        ? revocationUnchecked ? "Verification Passed, Revocation Unchecked" : "Verification Passed!"
+                        : result.checks.revocation?.status === "superseded"
+                          ? "Certificate Superseded"
+                          : isRevoked
+                            ? "Certificate Revoked"
+                            : "Verification Failed"}
+                    </p>
+                    {result.error && (
+                      <p className="text-sm mt-1 text-gray-600">{result.error}</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Detailed Checks */}
+                <div className="space-y-2 pl-10">
+                  <div className="flex items-center gap-2">
+                    <span className={result.checks.structureValid ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                      {result.checks.structureValid ? "✓" : "✗"}
+                    </span>
+                    <span className="text-sm">
+                      Certificate structure: {" "}
+                      <span className={result.checks.structureValid ? "text-green-700" : "text-red-700"}>
+                        {result.checks.structureValid ? "Valid" : "Invalid"}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={result.checks.hashMatch ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                      {result.checks.hashMatch ? "✓" : "✗"}
+                    </span>
+                    <span className="text-sm">
+                      File hash: {" "}
+                      <span className={result.checks.hashMatch ? "text-green-700" : "text-red-700"}>
+                        {result.checks.hashMatch ? "Matches certificate" : "Mismatch detected!"}
+                      </span>
+                    </span>
+                  </div>
+                  {!result.checks.hashMatch && result.certificate?.encryption?.enabled && (
+                    <p className="pl-6 text-xs text-gray-600">
+                      This artifact is encrypted. Without the original file, use the Encrypted mode to verify the stored ciphertext.
+                    </p>
+                  )}
+                  {result.checks.chunks && (
+                    <div className="pl-6">
+                      <ModifiedRegions comparison={result.checks.chunks} />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className={result.checks.signatureValid ? "text-green-600 font-bold" : "text-red-600 font-bold"}>
+                      {result.checks.signatureValid ? "✓" : "✗"}
+                    </span>
+                    <span className="text-sm">
+                      Signature: {" "}
+                      <span className={result.checks.signatureValid ? "text-green-700" : "text-red-700"}>
+                        {result.checks.signatureValid ? "Valid" : "Invalid"}
+                      </span>
+                    </span>
+                  </div>
+                  {result.checks.storageReachable !== undefined && (
+                    <div className="flex items-center gap-2">
+                      <span className={result.checks.storageReachable ? "text-green-600 font-bold" : "text-amber-600 font-bold"}>
+                        {result.checks.storageReachable ? "✓" : "!"}
+                      </span>
+                      <span className="text-sm">
+                        Storage pointer (optional): {" "}
+                        <span className={result.checks.storageReachable ? "text-green-700" : "text-amber-700"}>
+                          {result.checks.storageReachable ? "Reachable on Walrus" : "Not reachable"}
+                        </span>
+                      </span>
+                    </div>
+                  )}
+                  {result.checks.anchor && (
+                    <AnchorCheckRow check={result.checks.anchor} />
+                  )}
+                  {!result.checks.anchor && !result.checks.certificateBlobId && result.checks.structureValid && isAnchoringConfigured() && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-amber-600 font-bold">!</span>
+                      <span className="text-sm">
+                        On-chain anchor: <span className="text-amber-700">Not checked (certificate blob ID unknown)</span>
+                      </span>
+                    </div>
+                  )}
+                  {revocationUnchecked && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-amber-600 font-bold">!</span>
+                      <span className="text-sm">
+                        Revocation status: {" "}
+                        <span className="text-amber-700">
+                          {result.checks.revocation
+                            ? `Not checked (${result.checks.revocation.detail ?? "lookup failed"})`
+                            : "Not checked (certificate blob ID unknown; enter it above)"}
+                        </span>
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {result.valid && (
+                  <div className="pt-3 border-t bg-green-50 p-3 rounded">
+                    <p className="text-sm font-medium text-green-900">
+                      ✅ This file is authentic and matches its certificate.
+                    </p>
+                    <p className="text-xs text-green-700 mt-1">
+                      The cryptographic hash and signature are both valid.
+                      {revocationUnchecked && " Whether the author has revoked it could not be checked."}
+                    </p>
+                  </div>
                 )}
-              </div>
-            </div>
 
-            {/* Detailed Checks */}
-            <div className="space-y-2 pl-10">
-              <div className="flex items-center gap-2">
-                <span className="text-green-600 font-bold">
-                  {result.checks.structureValid ? "✓" : "✗"}
-                </span>
-                <span className="text-sm">
-                  Certificate structure: {" "}
-                  <span className={result.checks.structureValid ? "text-green-700" : "text-red-700"}>
-                    {result.checks.structureValid ? "Valid" : "Invalid"}
-                  </span>
-                </span>
-              </div>
-              <div className="flex items-center gap-2">
-                <span className="text-green-600 font-bold">
-                  {result.checks.hashMatch ? "✓" : "✗"}
-                </span>
-                <span className="text-sm">
-                  File hash: {" "}
-                  <span className={result.checks.hashMatch ? "text-green-700" : "text-red-700"}>
-                    {result.checks.hashMatch ? "Matches certificate" : "Mismatch detected!"}
-                  </span>
-                </span>
+                {result.checks.revocation && <RevocationBanner revocation={result.checks.revocation} />}
+
+                {!result.valid && !result.error && !isRevoked && (
+                  <div className="pt-3 border-t bg-red-50 p-3 rounded">
+                    <p className="text-sm font-medium text-red-900">
+                      ⚠️ Warning: This file may have been tampered with or the certificate is invalid.
+                    </p>
+                    <p className="text-xs text-red-700 mt-1">
+                      Do not trust this file. The hash does not match the certificate or the signature is invalid.
+                    </p>
+                  </div>
+                )}
               </div>
-              <div className="flex items-center gap-2">
-                <span className="text-green-600 font-bold">
-                  {result.checks.signatureValid ? "✓" : "✗"}
-                </span>
-                <span className="text-sm">
-                  Signature: {" "}
-                  <span className={result.checks.signatureValid ? "text-green-700" : "text-red-700"}>
-                    {result.checks.signatureValid ? "Valid" : "Invalid"}
-                  </span>
-                </span>
+            </Alert>
+          )}
+
+          {/* Input Form */}
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Certificate *</Label>
+                <div className="flex gap-1">
+                  {CERTIFICATE_SOURCES.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => setSource(option.id)}
+                      disabled={loading}
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        source === option.id ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
+
+              {source === "walrus" && (
+                <>
+                  <Input
+                    id="certBlobId"
+                    type="text"
+                    placeholder="BLOB:0xabc123..."
+                    value={certBlobId}
+                    onChange={(e) => setCertBlobId(e.target.value)}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-600">
+                    This is the blob ID returned when the certificate was generated. It starts with "BLOB:".
+                  </p>
+                </>
+              )}
+
+              {source === "lookup" && (
+                <CertificateLookup
+                  file={file}
+                  onSelect={(blobId) => {
+                    setCertBlobId(blobId);
+                    setSource("walrus");
+                    setResult(null);
+                  }}
+                  disabled={loading}
+                />
+              )}
+
+              {source === "file" && (
+                <>
+                  <Input
+                    id="certJsonFile"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => {
+                      setCertJsonFile(e.target.files?.[0] || null);
+                      setResult(null);
+                    }}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-600">
+                    The file is checked offline. Its revocation status is looked up by the certificate's blob ID.
+                  </p>
+                </>
+              )}
+
+              {source === "paste" && (
+                <>
+                  <textarea
+                    id="certJsonText"
+                    className="w-full min-h-32 rounded-md border border-input bg-transparent px-3 py-2 text-xs font-mono"
+                    placeholder='{"version": "1.1", "type": "opentruth.certificate", ...}'
+                    value={certJsonText}
+                    onChange={(e) => setCertJsonText(e.target.value)}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-600">
+                    The file is checked offline. Its revocation status is looked up by the certificate's blob ID.
+                  </p>
+                </>
+              )}
+
+              {(source === "file" || source === "paste") && (
+                <Input
+                  id="jsonBlobId"
+                  type="text"
+                  placeholder="Certificate blob ID (optional, found automatically when indexed)"
+                  value={jsonBlobId}
+                  onChange={(e) => setJsonBlobId(e.target.value)}
+                  disabled={loading}
+                />
+              )}
+
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={checkStorage}
+                  onChange={(e) => setCheckStorage(e.target.checked)}
+                  disabled={loading}
+                />
+                Also check that the stored file is reachable on Walrus (optional)
+              </label>
             </div>
 
-            {result.valid && (
-              <div className="pt-3 border-t bg-green-50 p-3 rounded">
-                <p className="text-sm font-medium text-green-900">
-                  ✅ This file is authentic and matches its certificate.
+            <div className="space-y-2">
+              <Label htmlFor="file">File to Verify *</Label>
+              <Input
+                id="file"
+                type="file"
+                onChange={handleFileChange}
+                disabled={loading || useStoredFile}
+              />
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useStoredFile}
+                  onChange={(e) => {
+                    setUseStoredFile(e.target.checked);
+                    setResult(null);
+                  }}
+                  disabled={loading}
+                />
+                Use the file stored on Walrus instead (unencrypted uploads only)
+              </label>
+              {file && !useStoredFile && (
+                <p className="text-xs text-gray-600">
+                  Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
                 </p>
-                <p className="text-xs text-green-700 mt-1">
-                  The cryptographic hash and signature are both valid. The certificate is stored immutably on Walrus.
-                </p>
-              </div>
-            )}
+              )}
+            </div>
+          </div>
 
-            {!result.valid && !result.error && (
-              <div className="pt-3 border-t bg-red-50 p-3 rounded">
-                <p className="text-sm font-medium text-red-900">
-                  ⚠️ Warning: This file may have been tampered with or the certificate is invalid.
-                </p>
-                <p className="text-xs text-red-700 mt-1">
-                  Do not trust this file. The hash does not match the certificate or the signature is invalid.
-                </p>
-              </div>
+          {/* Action Buttons */}
+          <div className="flex gap-3">
+            <Button
+              onClick={handleVerify}
+              disabled={(!file && !useStoredFile) || !hasCertificateInput || loading}
+              className="flex-1"
+              size="lg"
+            >
+              {loading ? (
+                <span className="flex items-center gap-2">
+                  <span className="animate-spin">⚙️</span>
+                  <span>{progress || "Verifying..."}</span>
+                </span>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+
+            {result && (
+              <Button onClick={handleReset} variant="outline" size="lg">
+                Reset
+              </Button>
             )}
           </div>
-        </Alert>
-      )}
 
-      {/* Input Form */}
-      <div className="space-y-4">
-        <div className="space-y-2">
-          <Label htmlFor="certBlobId">Certificate Blob ID *</Label>
-          <Input
-            id="certBlobId"
-            type="text"
-            placeholder="BLOB:0xabc123..."
-            value={certBlobId}
-            onChange={(e) => setCertBlobId(e.target.value)}
-            disabled={loading}
-          />
-          <p className="text-xs text-gray-600">
-            This is the blob ID returned when the certificate was generated. It starts with "BLOB:".
-          </p>
-        </div>
-
-        <div className="space-y-2">
-          <Label htmlFor="file">File to Verify *</Label>
-          <Input
-            id="file"
-            type="file"
-            onChange={handleFileChange}
-            disabled={loading}
-          />
-          {file && (
-            <p className="text-xs text-gray-600">
-              Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
-            </p>
-          )}
-        </div>
-      </div>
+          {/* Certificate Display */}
+          {result?.certificate && (
+            <div className="border-t pt-6">
+              <h3 className="text-lg font-semibold mb-3">Certificate Details</h3>
+              <CertificateDisplay certificate={result.certificate} />
 
-      {/* Action Buttons */}
-      <div className="flex gap-3">
-        <Button
-          onClick={handleVerify}
-          disabled={!file || !certBlobId.trim() || loading}
-          className="flex-1"
-          size="lg"
-        >
-          {loading ? (
-            <span className="flex items-center gap-2">
-              <span className="animate-spin">⚙️</span>
-              <span>{progress || "Verifying..."}</span>
-            </span>
-          ) : (
-            "Verify"
+              {result.checks.certificateBlobId && (
+                <div className="mt-4">
+                  <a
+                    href={getWalrusExplorerUrl(result.checks.certificateBlobId)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:underline inline-flex items-center gap-1"
+                  >
+                    View on Walrus Explorer →
+                  </a>
+                </div>
+              )}
+            </div>
           )}
-        </Button>
-
-        {result && (
-          <Button onClick={handleReset} variant="outline" size="lg">
-            Reset
-          </Button>
-        )}
-      </div>
-
-      {/* Certificate Display */}
-      {result?.certificate && (
-        <div className="border-t pt-6">
-          <h3 className="text-lg font-semibold mb-3">Certificate Details</h3>
-          <CertificateDisplay certificate={result.certificate} />
-
-          <div className="mt-4">
-            <a
-              href={getWalrusExplorerUrl(certBlobId)}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-blue-600 hover:underline inline-flex items-center gap-1"
-            >
-              View on Walrus Explorer →
-            </a>
-          </div>
-        </div>
-      )}
 
-      {/* Tips */}
-      {!result && (
-        <div className="bg-blue-50 p-4 rounded-md border border-blue-200">
-          <p className="text-sm font-medium text-blue-900 mb-2">How Verification Works</p>
-          <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
-            <li>The file is hashed using SHA-256 (client-side)</li>
-            <li>The hash is compared with the certificate's stored hash</li>
-            <li>The certificate's cryptographic signature is verified</li>
-            <li>All checks must pass for successful verification</li>
-          </ul>
-        </div>
+          {/* Tips */}
+          {!result && (
+            <div className="bg-blue-50 p-4 rounded-md border border-blue-200">
+              <p className="text-sm font-medium text-blue-900 mb-2">How Verification Works</p>
+              <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
+                <li>The file is hashed using SHA-256 (client-side)</li>
+                <li>The hash is compared with the certificate's stored hash</li>
+                <li>The certificate's cryptographic signature is verified</li>
+                <li>All checks must pass for successful verification</li>
+              </ul>
+            </div>
+          )}
+        </>
       )}
     </Card>
   );
@@ -0,0 +1,216 @@
+import { getFullnodeUrl } from '@mysten/sui/client';
+
+/**
+ * Network configuration: Sui RPC, Walrus endpoints, Seal key servers and the
+ * OpenTruth Move package for each supported network
+ *
+ * Every value can be overridden with `VITE_<NETWORK>_<KEY>` (e.g.
+ * `VITE_TESTNET_SEAL_PACKAGE_ID`). The unprefixed variables
+ * (`VITE_SEAL_PACKAGE_ID`, ...) apply to the default network, `VITE_SUI_NETWORK`.
+ */
+
+export type NetworkName = 'localnet' | 'testnet' | 'mainnet';
+
+export const NETWORK_NAMES: NetworkName[] = ['localnet', 'testnet', 'mainnet'];
+
+export interface KeyServerConfig {
+  objectId: string;
+  weight: number;
+}
+
+export interface RetryConfig {
+  maxAttempts: number; // Total tries across all endpoints
+  baseDelayMs: number; // Backoff before the second try; doubles after each failure
+  timeoutMs: number; // Abort a request after this long without any data moving
+}
+
+export interface NetworkConfig {
+  name: NetworkName;
+  label: string;
+  suiRpcUrl: string;
+  suiExplorerUrl?: string; // Account pages are `${suiExplorerUrl}/${address}`; unset on localnet unless configured
+  walrus: {
+    publisherUrls: string[]; // Tried in order; failed requests move on to the next one
+    aggregatorUrls: string[];
+    explorerUrl: string; // Blob pages are `${explorerUrl}/${blobId}`
+    retry: RetryConfig;
+    epochDurationMs: number; // Length of a Walrus storage epoch
+    maxEpochs: number; // Longest storage period a blob can be bought for
+  };
+  seal: {
+    packageId: string; // Package with the seal_approve policies (move/opentruth)
+    keyServers: KeyServerConfig[];
+    threshold: number;
+    verifyKeyServers: boolean;
+  };
+  opentruth: {
+    packageId: string;
+    registryObjectId: string;
+  };
+}
+
+const STORAGE_KEY = 'opentruth-network';
+
+const env = import.meta.env as Record<string, string | undefined>;
+
+export const DEFAULT_NETWORK: NetworkName = NETWORK_NAMES.includes(env.VITE_SUI_NETWORK as NetworkName)
+  ? (env.VITE_SUI_NETWORK as NetworkName)
+  : 'localnet';
+
+/**
+ * Read `VITE_<NETWORK>_<key>`, then `VITE_<key>` for the default network
+ */
+function readEnv(network: NetworkName, key: string): string | undefined {
+  return env[`VITE_${network.toUpperCase()}_${key}`] ||
+    (network === DEFAULT_NETWORK ? env[`VITE_${key}`] : undefined) ||
+    undefined;
+}
+
+/**
+ * Comma-separated list from `readEnv`, or the fallback when unset
+ */
+function readList(network: NetworkName, key: string, fallback: string[]): string[] {
+  const items = readEnv(network, key)?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items?.length ? items : fallback;
+}
+
+/**
+ * Key servers from a comma-separated list of object IDs (weight 1 each)
+ */
+function readKeyServers(network: NetworkName, fallback: string[]): KeyServerConfig[] {
+  return readList(network, 'KEY_SERVER_OBJECT_ID', fallback).map((objectId) => ({ objectId, weight: 1 }));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WALRUS_MAX_EPOCHS = 53;
+
+const DEFAULT_RETRY: RetryConfig = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  timeoutMs: 120_000,
+};
+
+function readRetry(network: NetworkName): RetryConfig {
+  return {
+    maxAttempts: Number(readEnv(network, 'WALRUS_MAX_ATTEMPTS')) || DEFAULT_RETRY.maxAttempts,
+    baseDelayMs: Number(readEnv(network, 'WALRUS_RETRY_DELAY_MS')) || DEFAULT_RETRY.baseDelayMs,
+    timeoutMs: Number(readEnv(network, 'WALRUS_TIMEOUT_MS')) || DEFAULT_RETRY.timeoutMs,
+  };
+}
+
+function buildNetworkConfig(
+  name: NetworkName,
+  defaults: {
+    label: string;
+    suiExplorerUrl: string;
+    publisherUrls: string[];
+    aggregatorUrls: string[];
+    walrusExplorerUrl: string;
+    epochDurationMs: number;
+    keyServers: string[];
+    threshold: number;
+    verifyKeyServers: boolean;
+  }
+): NetworkConfig {
+  const suiRpcUrl = readEnv(name, 'SUI_RPC_URL') || getFullnodeUrl(name);
+  const threshold = Number(readEnv(name, 'SEAL_THRESHOLD')) || defaults.threshold;
+
+  return {
+    name,
+    label: defaults.label,
+    suiRpcUrl,
+    suiExplorerUrl: readEnv(name, 'SUI_EXPLORER_URL') || defaults.suiExplorerUrl || undefined,
+    walrus: {
+      publisherUrls: readList(name, 'WALRUS_PUBLISHER_URL', defaults.publisherUrls),
+      aggregatorUrls: readList(name, 'WALRUS_AGGREGATOR_URL', defaults.aggregatorUrls),
+      explorerUrl: defaults.walrusExplorerUrl,
+      retry: readRetry(name),
+      epochDurationMs: defaults.epochDurationMs,
+      maxEpochs: WALRUS_MAX_EPOCHS,
+    },
+    seal: {
+      packageId: readEnv(name, 'SEAL_PACKAGE_ID') || '',
+      keyServers: readKeyServers(name, defaults.keyServers),
+      threshold,
+      verifyKeyServers: defaults.verifyKeyServers,
+    },
+    opentruth: {
+      packageId: readEnv(name, 'OPENTRUTH_PACKAGE_ID') || '',
+      registryObjectId: readEnv(name, 'REGISTRY_OBJECT_ID') || '',
+    },
+  };
+}
+
+export const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  // A single local key server; Walrus has no local deployment, so use testnet storage
+  localnet: buildNetworkConfig('localnet', {
+    label: 'Localnet',
+    suiExplorerUrl: '',
+    publisherUrls: ['https://publisher.walrus-testnet.walrus.space'],
+    aggregatorUrls: ['https://aggregator.walrus-testnet.walrus.space'],
+    walrusExplorerUrl: 'https://walruscan.com/object',
+    epochDurationMs: DAY_MS,
+    keyServers: [],
+    threshold: 1,
+    verifyKeyServers: false,
+  }),
+  testnet: buildNetworkConfig('testnet', {
+    label: 'Testnet',
+    suiExplorerUrl: 'https://suiscan.xyz/testnet/account',
+    publisherUrls: ['https://publisher.walrus-testnet.walrus.space'],
+    aggregatorUrls: ['https://aggregator.walrus-testnet.walrus.space'],
+    walrusExplorerUrl: 'https://walruscan.com/testnet/blob',
+    epochDurationMs: DAY_MS,
+    keyServers: [
+      '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75', // mysten-testnet-1
+      '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8', // mysten-testnet-2
+    ],
+    threshold: 2,
+    verifyKeyServers: true,
+  }),
+  // No public publisher or open key servers on mainnet: configure your own
+  mainnet: buildNetworkConfig('mainnet', {
+    label: 'Mainnet',
+    suiExplorerUrl: 'https://suiscan.xyz/mainnet/account',
+    publisherUrls: [],
+    aggregatorUrls: ['https://aggregator.walrus-mainnet.walrus.space'],
+    walrusExplorerUrl: 'https://walruscan.com/mainnet/blob',
+    epochDurationMs: 14 * DAY_MS,
+    keyServers: [],
+    threshold: 2,
+    verifyKeyServers: true,
+  }),
+};
+
+function loadActiveNetwork(): NetworkName {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as NetworkName | null;
+    return stored && NETWORK_NAMES.includes(stored) ? stored : DEFAULT_NETWORK;
+  } catch {
+    return DEFAULT_NETWORK;
+  }
+}
+
+let activeNetwork = loadActiveNetwork();
+
+export function getActiveNetwork(): NetworkName {
+  return activeNetwork;
+}
+
+/**
+ * Switch the network used by all modules (persisted across reloads)
+ * Kept in sync with dapp-kit's SuiClientProvider in main.tsx
+ */
+export function setActiveNetwork(network: NetworkName): void {
+  activeNetwork = network;
+  try {
+    localStorage.setItem(STORAGE_KEY, network);
+  } catch (error) {
+    console.warn('Failed to persist network choice:', error);
+  }
+}
+
+export function getNetworkConfig(network: NetworkName = activeNetwork): NetworkConfig {
+  return NETWORKS[network];
+}
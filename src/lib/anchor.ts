@@ -0,0 +1,281 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { OpenTruthCertificate } from "../types";
+import { getNetworkConfig } from "../config/networks";
+
+/**
+ * On-chain certificate anchors and revocation pointers
+ * (move/opentruth/sources/registry.move)
+ *
+ * After a certificate is uploaded, its blob ID, artifact hash and author are
+ * recorded in the shared Registry with the Sui clock time. The on-chain time is
+ * an upper bound on when the certificate existed: a `timestamp` far earlier
+ * than the anchor is either a late anchor or a backdated certificate, so it is
+ * only proven up to the anchor time.
+ */
+
+export interface CertificateAnchor {
+  certificateBlobId: string;
+  artifactHash: string;
+  author: string;
+  timestampMs: number;
+}
+
+export interface RevocationPointer {
+  certificateBlobId: string;
+  revocationBlobId: string;
+  author: string;
+  timestampMs: number;
+}
+
+export type AnchorStatus = "anchored" | "anchored_late" | "not_anchored" | "mismatch" | "timestamp_mismatch";
+
+export interface AnchorCheck {
+  status: AnchorStatus;
+  anchor?: CertificateAnchor;
+  delayMs?: number; // anchor time - certificate.timestamp
+  detail?: string;
+}
+
+/**
+ * Longest gap between signing a certificate and anchoring it that still
+ * proves its timestamp (covers the wallet prompts and the certificate upload)
+ */
+export const MAX_ANCHOR_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Tolerated difference between the author's clock and the Sui clock
+ */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * `mutateAsync` of dapp-kit's useSignAndExecuteTransaction
+ */
+export type SignAndExecute = (args: { transaction: Transaction }) => Promise<{ digest: string }>;
+
+export const normalizeBlobId = (blobId: string) => blobId.trim().replace(/^BLOB:/, "");
+
+export function isAnchoringConfigured(): boolean {
+  const { packageId, registryObjectId } = getNetworkConfig().opentruth;
+  return !!packageId && !!registryObjectId;
+}
+
+/**
+ * Package and Registry object on the active network, or throw if unset
+ */
+function requireRegistry(): { packageId: string; registryObjectId: string } {
+  if (!isAnchoringConfigured()) {
+    throw new Error(
+      `Anchoring is not configured on ${getNetworkConfig().name}: set VITE_OPENTRUTH_PACKAGE_ID and VITE_REGISTRY_OBJECT_ID`
+    );
+  }
+  return getNetworkConfig().opentruth;
+}
+
+/**
+ * Build the `registry::anchor` transaction
+ */
+export function buildAnchorTransaction(certificateBlobId: string, artifactHash: string): Transaction {
+  const { packageId, registryObjectId } = requireRegistry();
+
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::registry::anchor`,
+    arguments: [
+      tx.object(registryObjectId),
+      tx.pure.string(normalizeBlobId(certificateBlobId)),
+      tx.pure.string(artifactHash),
+      tx.object.clock(),
+    ],
+  });
+  return tx;
+}
+
+/**
+ * Anchor a certificate on Sui and wait for the transaction to succeed
+ *
+ * @returns Transaction digest
+ */
+export async function anchorCertificate(
+  client: SuiClient,
+  signAndExecute: SignAndExecute,
+  certificateBlobId: string,
+  artifactHash: string
+): Promise<string> {
+  try {
+    const { digest } = await signAndExecute({
+      transaction: buildAnchorTransaction(certificateBlobId, artifactHash),
+    });
+
+    const { effects } = await client.waitForTransaction({ digest, options: { showEffects: true } });
+    if (effects?.status.status !== "success") {
+      throw new Error(effects?.status.error || "Transaction failed");
+    }
+
+    return digest;
+  } catch (error) {
+    console.error("Certificate anchoring error:", error);
+    throw new Error(`Anchoring failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Read the entry one author recorded for a blob ID in one of the Registry's
+ * tables (`anchors` or `revocations`), as raw Move struct fields
+ *
+ * Entries are keyed by (blob ID, sender), so entries other addresses recorded
+ * for the same blob ID are never read.
+ */
+async function readRegistryEntry(
+  client: SuiClient,
+  table: "anchors" | "revocations",
+  certificateBlobId: string,
+  author: string
+): Promise<Record<string, string> | undefined> {
+  if (!isAnchoringConfigured()) return undefined;
+
+  const { packageId, registryObjectId } = getNetworkConfig().opentruth;
+  const registry = await client.getObject({ id: registryObjectId, options: { showContent: true } });
+  const content = registry.data?.content;
+  if (content?.dataType !== "moveObject") {
+    throw new Error("Registry object not found");
+  }
+
+  // Registry { anchors: Table<EntryKey, Anchor>, revocations: Table<EntryKey, Revocation> }
+  const fields = content.fields as Record<typeof table, { fields: { id: { id: string } } }>;
+  const tableId = fields[table].fields.id.id;
+
+  const entry = await client.getDynamicFieldObject({
+    parentId: tableId,
+    name: {
+      type: `${packageId}::registry::EntryKey`,
+      value: { certificate_blob_id: normalizeBlobId(certificateBlobId), author: normalizeSuiAddress(author) },
+    },
+  });
+  if (entry.error || entry.data?.content?.dataType !== "moveObject") {
+    return undefined; // Nothing recorded by this author
+  }
+
+  return (entry.data.content.fields as { value: { fields: Record<string, string> } }).value.fields;
+}
+
+/**
+ * Read the anchor the author recorded for a certificate blob ID
+ */
+export async function getCertificateAnchor(
+  client: SuiClient,
+  certificateBlobId: string,
+  author: string
+): Promise<CertificateAnchor | undefined> {
+  const anchor = await readRegistryEntry(client, "anchors", certificateBlobId, author);
+  return anchor && {
+    certificateBlobId: anchor.certificate_blob_id,
+    artifactHash: anchor.artifact_hash,
+    author: anchor.author,
+    timestampMs: Number(anchor.timestamp_ms),
+  };
+}
+
+/**
+ * Read the revocation pointer the author recorded for a certificate blob ID
+ */
+export async function getRevocationPointer(
+  client: SuiClient,
+  certificateBlobId: string,
+  author: string
+): Promise<RevocationPointer | undefined> {
+  const revocation = await readRegistryEntry(client, "revocations", certificateBlobId, author);
+  return revocation && {
+    certificateBlobId: revocation.certificate_blob_id,
+    revocationBlobId: revocation.revocation_blob_id,
+    author: revocation.author,
+    timestampMs: Number(revocation.timestamp_ms),
+  };
+}
+
+/**
+ * Record a revocation record's blob ID against a certificate on Sui
+ *
+ * @returns Transaction digest
+ */
+export async function anchorRevocation(
+  client: SuiClient,
+  signAndExecute: SignAndExecute,
+  certificateBlobId: string,
+  revocationBlobId: string
+): Promise<string> {
+  const { packageId, registryObjectId } = requireRegistry();
+
+  try {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${packageId}::registry::revoke`,
+      arguments: [
+        tx.object(registryObjectId),
+        tx.pure.string(normalizeBlobId(certificateBlobId)),
+        tx.pure.string(normalizeBlobId(revocationBlobId)),
+        tx.object.clock(),
+      ],
+    });
+
+    const { digest } = await signAndExecute({ transaction: tx });
+    const { effects } = await client.waitForTransaction({ digest, options: { showEffects: true } });
+    if (effects?.status.status !== "success") {
+      throw new Error(effects?.status.error || "Transaction failed");
+    }
+
+    return digest;
+  } catch (error) {
+    console.error("Revocation anchoring error:", error);
+    throw new Error(`Revocation anchoring failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+const formatDelay = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  return minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+};
+
+/**
+ * Compare a certificate with its author's on-chain anchor
+ *
+ * Only an anchor sent by the certificate author counts; anyone can anchor a blob ID.
+ */
+export function evaluateAnchor(
+  certificate: OpenTruthCertificate,
+  anchor: CertificateAnchor | undefined
+): AnchorCheck {
+  const author = normalizeSuiAddress(certificate.author.suiAddress);
+  if (!anchor || normalizeSuiAddress(anchor.author) !== author) {
+    return { status: "not_anchored" };
+  }
+
+  if (anchor.artifactHash !== certificate.artifact.hash) {
+    return {
+      status: "mismatch",
+      anchor,
+      detail: `Anchor records artifact ${anchor.artifactHash}`,
+    };
+  }
+
+  const delayMs = anchor.timestampMs - certificate.timestamp;
+  if (delayMs > MAX_ANCHOR_DELAY_MS) {
+    return {
+      status: "anchored_late",
+      anchor,
+      delayMs,
+      detail: `Anchored ${formatDelay(delayMs)} after the certificate's timestamp; its time is only proven up to the anchor`,
+    };
+  }
+  if (delayMs < -MAX_CLOCK_SKEW_MS) {
+    return {
+      status: "timestamp_mismatch",
+      anchor,
+      delayMs,
+      detail: `Certificate claims a time ${formatDelay(delayMs)} after it was anchored`,
+    };
+  }
+
+  return { status: "anchored", anchor, delayMs };
+}
@@ -0,0 +1,278 @@
+import type { OpenTruthCertificate } from "../types";
+import { hashFile } from "./crypto";
+import { getCertificate } from "./walrus";
+import { validateCertificate } from "./certificate";
+import { verifyCertificateSignature } from "./sui";
+import { getAllCertificates } from "./storage";
+
+/**
+ * Batch verification of many files against many certificates
+ *
+ * Files are paired with certificates either through a manifest
+ * (filename → certificate blob ID) or by looking up each file's hash among
+ * the artifact hashes of known certificates (the local library plus any
+ * blob IDs listed in the manifest).
+ */
+
+export type BatchStatus = "valid" | "hash_mismatch" | "bad_signature" | "not_found" | "error";
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  valid: "Valid",
+  hash_mismatch: "Hash mismatch",
+  bad_signature: "Bad signature",
+  not_found: "Certificate not found",
+  error: "Error",
+};
+
+export interface ManifestEntry {
+  filename?: string; // Omitted for blob IDs only used as hash-matching candidates
+  certificateBlobId: string;
+}
+
+export interface BatchFileResult {
+  filename: string;
+  fileHash?: string;
+  certificateBlobId?: string;
+  status: BatchStatus;
+  detail?: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+}
+
+export interface VerifyBatchParams {
+  files: File[];
+  manifest?: ManifestEntry[];
+  matchByHash?: boolean;
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Parse a CSV or JSON manifest
+ *
+ * CSV: `filename,certificateBlobId` rows, optional header, `#` comments.
+ * A row with a single column is a blob ID without a filename.
+ * JSON: an array of `{ filename?, certificateBlobId }` or a `{ filename: blobId }` map.
+ */
+export function parseManifest(text: string, sourceName = ""): ManifestEntry[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (sourceName.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Manifest is not valid JSON");
+    }
+    return parseJsonManifest(data);
+  }
+
+  const rows = trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1")));
+
+  if (rows.length && /^(file(name)?|path|(certificate)?blob_?id)$/i.test(rows[0][0])) {
+    rows.shift(); // Header row
+  }
+
+  return rows
+    .map((cells) =>
+      cells.length >= 2
+        ? { filename: cells[0], certificateBlobId: cells[1] }
+        : { certificateBlobId: cells[0] }
+    )
+    .filter((entry) => entry.certificateBlobId);
+}
+
+function parseJsonManifest(data: unknown): ManifestEntry[] {
+  if (Array.isArray(data)) {
+    return data.map((item, i) => {
+      if (typeof item === "string") return { certificateBlobId: item };
+      const entry = item as Record<string, unknown>;
+      if (typeof entry?.certificateBlobId !== "string") {
+        throw new Error(`Manifest entry ${i + 1} is missing certificateBlobId`);
+      }
+      return {
+        filename: typeof entry.filename === "string" ? entry.filename : undefined,
+        certificateBlobId: entry.certificateBlobId,
+      };
+    });
+  }
+
+  if (data && typeof data === "object") {
+    return Object.entries(data as Record<string, unknown>).map(([filename, blobId]) => {
+      if (typeof blobId !== "string") {
+        throw new Error(`Manifest entry for ${filename} is not a blob ID`);
+      }
+      return { filename, certificateBlobId: blobId };
+    });
+  }
+
+  throw new Error("Manifest must be an array or an object");
+}
+
+/**
+ * Path used to identify a file: relative path for folder uploads, else its name
+ */
+export function getFilePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+/**
+ * Find the manifest entry for a file by relative path, falling back to its basename
+ */
+function findManifestEntry(file: File, manifest: ManifestEntry[]): ManifestEntry | undefined {
+  const path = getFilePath(file);
+  const withoutRoot = path.split("/").slice(1).join("/");
+  return (
+    manifest.find((e) => e.filename === path) ||
+    manifest.find((e) => withoutRoot && e.filename === withoutRoot) ||
+    manifest.find((e) => e.filename === file.name)
+  );
+}
+
+/**
+ * Run an async worker over items with at most `limit` in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Verify every file, reporting progress after each one completes
+ */
+export async function verifyBatch(params: VerifyBatchParams): Promise<BatchFileResult[]> {
+  const { files, manifest = [], matchByHash = false, concurrency = DEFAULT_CONCURRENCY, onProgress } = params;
+
+  // Certificates and signature checks are shared between files
+  const certificates = new Map<string, Promise<OpenTruthCertificate | null>>();
+  const signatures = new Map<string, Promise<boolean>>();
+
+  const loadCertificate = (blobId: string) => {
+    if (!certificates.has(blobId)) {
+      certificates.set(
+        blobId,
+        getCertificate(blobId)
+          .then((cert) => (validateCertificate(cert) ? cert : null))
+          .catch((error) => {
+            console.warn("Failed to fetch certificate:", blobId, error);
+            return null;
+          })
+      );
+    }
+    return certificates.get(blobId)!;
+  };
+
+  const checkSignature = (blobId: string, cert: OpenTruthCertificate) => {
+    if (!signatures.has(blobId)) {
+      signatures.set(
+        blobId,
+        verifyCertificateSignature(cert, cert.proofs.signature.signature, cert.proofs.signature.publicKey)
+      );
+    }
+    return signatures.get(blobId)!;
+  };
+
+  // Hash-matching candidates: library certificates are used as stored,
+  // manifest blob IDs without a filename are fetched up front
+  const candidates: Array<{ blobId: string; hash: string }> = [];
+  if (matchByHash) {
+    for (const entry of getAllCertificates()) {
+      certificates.set(entry.id, Promise.resolve(entry.certificate));
+      candidates.push({ blobId: entry.id, hash: entry.certificate.artifact.hash });
+    }
+
+    const listed = manifest.filter((e) => !e.filename).map((e) => e.certificateBlobId);
+    await mapWithConcurrency(listed, concurrency, async (blobId) => {
+      const cert = await loadCertificate(blobId);
+      if (cert) candidates.push({ blobId, hash: cert.artifact.hash });
+    });
+  }
+
+  let completed = 0;
+  onProgress?.({ completed, total: files.length });
+
+  return mapWithConcurrency(files, concurrency, async (file) => {
+    const result: BatchFileResult = { filename: getFilePath(file), status: "error" };
+
+    try {
+      result.fileHash = await hashFile(file);
+
+      const entry = findManifestEntry(file, manifest);
+      const blobId = entry?.certificateBlobId ??
+        candidates.find((c) => c.hash === result.fileHash)?.blobId;
+
+      if (!blobId) {
+        result.status = "not_found";
+        result.detail = matchByHash ? "No certificate with this file's hash" : "File is not listed in the manifest";
+        return result;
+      }
+      result.certificateBlobId = blobId;
+
+      const certificate = await loadCertificate(blobId);
+      if (!certificate) {
+        result.status = "not_found";
+        result.detail = "Certificate could not be fetched or is invalid";
+        return result;
+      }
+
+      if (certificate.artifact.hash !== result.fileHash) {
+        result.status = "hash_mismatch";
+        result.detail = `Certificate expects ${certificate.artifact.hash}`;
+        return result;
+      }
+
+      result.status = (await checkSignature(blobId, certificate)) ? "valid" : "bad_signature";
+    } catch (error) {
+      result.status = "error";
+      result.detail = error instanceof Error ? error.message : "Verification failed";
+    } finally {
+      onProgress?.({ completed: ++completed, total: files.length });
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Count results per status
+ */
+export function summarizeBatch(results: BatchFileResult[]): Record<BatchStatus, number> {
+  const summary: Record<BatchStatus, number> = { valid: 0, hash_mismatch: 0, bad_signature: 0, not_found: 0, error: 0 };
+  results.forEach((r) => summary[r.status]++);
+  return summary;
+}
+
+/**
+ * Serialize a batch report as CSV
+ */
+export function batchReportToCsv(results: BatchFileResult[]): string {
+  const escape = (value = "") => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = results.map((r) =>
+    [r.filename, r.status, r.certificateBlobId, r.fileHash, r.detail].map(escape).join(",")
+  );
+  return ["filename,status,certificateBlobId,fileHash,detail", ...rows].join("\n");
+}
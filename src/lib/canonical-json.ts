@@ -0,0 +1,46 @@
+/**
+ * Canonical JSON serialization (RFC 8785 JSON Canonicalization Scheme)
+ *
+ * - Object keys are sorted by UTF-16 code units, at every nesting level
+ * - No insignificant whitespace
+ * - Strings and numbers use ECMAScript JSON serialization, which is what
+ *   JCS specifies (non-finite numbers are rejected)
+ * - Object members whose value is `undefined` are omitted, as in JSON.stringify
+ *
+ * @example
+ * ```typescript
+ * canonicalize({ b: 1, a: { d: true, c: "x" } });
+ * // Returns: '{"a":{"c":"x","d":true},"b":1}'
+ * ```
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      return JSON.stringify(value);
+    case "object":
+      break;
+    default:
+      throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+  }
+
+  if (Array.isArray(value)) {
+    // Array holes and undefined entries become null, as in JSON.stringify
+    return `[${Array.from(value, (v) => (v === undefined ? "null" : canonicalize(v))).join(",")}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const members = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+
+  return `{${members.join(",")}}`;
+}
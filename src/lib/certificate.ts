@@ -1,5 +1,29 @@
-import { hashFile, hashString } from "./crypto";
-import type { OpenTruthCertificate } from "../types";
+import { hashFile, hashFileChunks, hashString, type HashOptions } from "./crypto";
+import { createChunkManifest, validateChunkManifest } from "./chunks";
+import type { CertificateReference, CertificateRelation, OpenTruthCertificate } from "../types";
+
+/**
+ * Version stamped on newly generated certificates
+ */
+export const CERTIFICATE_VERSION: OpenTruthCertificate["version"] = "1.1";
+
+const SUPPORTED_VERSIONS: ReadonlyArray<string> = ["1.0", "1.1"];
+
+const SIGNATURE_SCHEMES: ReadonlyArray<OpenTruthCertificate["proofs"]["signature"]["scheme"]> = [
+  "ED25519",
+  "SECP256K1",
+  "SECP256R1",
+  "ZKLOGIN",
+  "MULTISIG",
+  "PASSKEY",
+];
+
+export const CERTIFICATE_RELATIONS: Record<CertificateRelation, string> = {
+  derivedFrom: "Derived from",
+  trainedOn: "Trained on",
+  supersedes: "Supersedes",
+  editOf: "Edit of",
+};
 
 export interface GenerateCertificateParams {
   file: File;
@@ -10,6 +34,8 @@ export interface GenerateCertificateParams {
     prompt?: string;
     checkpointHash?: string;
     datasetMerkleRoot?: string;
+    runId?: string;
+    previousCheckpointHash?: string;
   };
   datasetInfo?: {
     fileCount: number;
@@ -17,6 +43,9 @@ export interface GenerateCertificateParams {
     merkleRoot: string;
     fileHashes: string[];
   };
+  references?: CertificateReference[];
+  chunkSize?: number; // Add a chunk manifest with chunks of this size (see chunks.ts)
+  onHashProgress?: HashOptions["onProgress"];
 }
 
 /**
@@ -25,14 +54,22 @@ export interface GenerateCertificateParams {
 export async function generateCertificate(
   params: GenerateCertificateParams
 ): Promise<Omit<OpenTruthCertificate, "proofs" | "storage">> {
-  const { file, suiAddress, modelInfo, datasetInfo } = params;
+  const { file, suiAddress, modelInfo, datasetInfo, references, chunkSize, onHashProgress } = params;
   
-  // Hash the file
-  const fileHash = await hashFile(file);
+  // Hash the file (and its chunks in the same pass when a manifest is requested)
+  let fileHash: string;
+  let chunks: OpenTruthCertificate["artifact"]["chunks"];
+  if (chunkSize && file.size > 0) {
+    const chunked = await hashFileChunks(file, chunkSize, { onProgress: onHashProgress });
+    fileHash = chunked.hash;
+    chunks = await createChunkManifest(chunked.chunkHashes, chunkSize);
+  } else {
+    fileHash = await hashFile(file, { onProgress: onHashProgress });
+  }
   
   // Build base certificate
   const certificate: Omit<OpenTruthCertificate, "proofs" | "storage"> = {
-    version: "1.0",
+    version: CERTIFICATE_VERSION,
     type: "opentruth.certificate",
     timestamp: Date.now(),
     author: {
@@ -44,6 +81,7 @@ export async function generateCertificate(
       size: file.size,
       mimeType: file.type,
       filename: file.name,
+      ...(chunks && { chunks }),
     },
   };
   
@@ -59,6 +97,8 @@ export async function generateCertificate(
       promptHash,
       checkpointHash: modelInfo.checkpointHash,
       datasetMerkleRoot: modelInfo.datasetMerkleRoot,
+      runId: modelInfo.runId,
+      previousCheckpointHash: modelInfo.previousCheckpointHash,
     };
   }
   
@@ -66,6 +106,11 @@ export async function generateCertificate(
   if (datasetInfo) {
     certificate.dataset = datasetInfo;
   }
+
+  // Add references if provided
+  if (references?.length) {
+    certificate.references = references;
+  }
   
   return certificate;
 }
@@ -77,7 +122,8 @@ export async function generateDatasetCertificate(
   files: File[],
   fileHashes: string[],
   merkleRoot: string,
-  suiAddress: string
+  suiAddress: string,
+  references?: CertificateReference[]
 ): Promise<Omit<OpenTruthCertificate, "proofs" | "storage">> {
   const totalSize = files.reduce((sum, file) => sum + file.size, 0);
   
@@ -91,6 +137,7 @@ export async function generateDatasetCertificate(
   const baseCert = await generateCertificate({
     file: datasetFile,
     suiAddress,
+    references,
   });
   
   // Override with dataset-specific info
@@ -122,22 +169,59 @@ export function completeCertificate(
 /**
  * Validate certificate structure
  */
-export function validateCertificate(cert: any): cert is OpenTruthCertificate {
+export function validateCertificate(doc: unknown): doc is OpenTruthCertificate {
+  // Parsed JSON may be null, a number or a string
+  if (typeof doc !== "object" || doc === null) return false;
+
   const requiredFields = ["version", "type", "timestamp", "author", "artifact", "proofs", "storage"];
-  const hasRequired = requiredFields.every((field) => field in cert);
+  const hasRequired = requiredFields.every((field) => field in doc);
   
   if (!hasRequired) return false;
+  const cert = doc as OpenTruthCertificate;
+  if (!SUPPORTED_VERSIONS.includes(cert.version)) return false;
   
   // Validate artifact
   if (!cert.artifact?.hash?.startsWith("sha256:")) return false;
   if (!Number.isInteger(cert.artifact?.size)) return false;
+  if (cert.artifact.chunks !== undefined && !validateChunkManifest(cert.artifact.chunks)) return false;
   
+  // Validate references
+  if (cert.references !== undefined && !validateReferences(cert.references)) return false;
+
   // Validate proofs
-  if (!["ED25519", "SECP256K1"].includes(cert.proofs?.signature?.scheme)) return false;
+  if (!SIGNATURE_SCHEMES.includes(cert.proofs?.signature?.scheme)) return false;
   
   return true;
 }
 
+/**
+ * Validate a certificate references array
+ */
+export function validateReferences(references: unknown): references is CertificateReference[] {
+  if (!Array.isArray(references)) return false;
+
+  return references.every((ref) =>
+    Object.hasOwn(CERTIFICATE_RELATIONS, ref?.relation) &&
+    typeof ref.certificateBlobId === "string" &&
+    ref.certificateBlobId.length > 0 &&
+    typeof ref.artifactHash === "string" &&
+    ref.artifactHash.startsWith("sha256:")
+  );
+}
+
+/**
+ * Trim references and drop incomplete entries before signing
+ */
+export function normalizeReferences(references: CertificateReference[]): CertificateReference[] {
+  return references
+    .map((ref) => ({
+      relation: ref.relation,
+      certificateBlobId: ref.certificateBlobId.trim(),
+      artifactHash: ref.artifactHash.trim(),
+    }))
+    .filter((ref) => ref.certificateBlobId && ref.artifactHash.startsWith("sha256:"));
+}
+
 /**
  * Verify file matches certificate
  */
@@ -0,0 +1,195 @@
+import type { ChunkManifest } from "../types";
+import { hashFileChunks, type HashOptions } from "./crypto";
+import { buildMerkleTree } from "./merkle";
+
+/**
+ * Chunk manifests for large artifacts
+ *
+ * The original file is split into fixed-size chunks (the last one may be
+ * shorter) and each chunk is hashed with SHA-256. The chunk digests, in file
+ * order, are the leaves of a Merkle tree built like a dataset tree (see
+ * merkle.ts). The manifest sits in `artifact.chunks`, so the signature covers it.
+ *
+ * A verifier can then
+ * - check a byte range or partial download: every chunk that lies entirely
+ *   inside the range is compared against its certified hash
+ * - locate edits: re-hashing a modified file shows which regions changed,
+ *   not just that the whole-file hash differs
+ */
+
+const MiB = 1024 * 1024;
+
+export const CHUNK_SIZES = [1 * MiB, 4 * MiB, 16 * MiB, 64 * MiB];
+
+export const DEFAULT_CHUNK_SIZE = 4 * MiB;
+
+/**
+ * Files at least this large get a chunk manifest by default
+ */
+export const CHUNK_MANIFEST_MIN_FILE_SIZE = 64 * MiB;
+
+/**
+ * Byte range within the artifact, end exclusive
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface ChunkComparison {
+  manifestValid: boolean; // Chunk count fits the artifact size and the root matches the hashes
+  checkedChunks: number; // Chunks compared against the manifest
+  checkedBytes: number;
+  mismatchedChunks: number[]; // Chunk indices whose bytes differ from the certified ones
+  modifiedRegions: ByteRange[]; // Mismatched chunks as merged artifact byte ranges
+}
+
+/**
+ * Build a chunk manifest from chunk hashes (see hashFileChunks)
+ */
+export async function createChunkManifest(chunkHashes: string[], chunkSize: number): Promise<ChunkManifest> {
+  const { root } = await buildMerkleTree(chunkHashes);
+  return { chunkSize, chunkHashes, merkleRoot: root };
+}
+
+/**
+ * Validate chunk manifest structure
+ */
+export function validateChunkManifest(manifest: unknown): manifest is ChunkManifest {
+  const m = manifest as Partial<ChunkManifest> | null;
+  if (!m || typeof m.chunkSize !== "number" || !Number.isInteger(m.chunkSize) || m.chunkSize <= 0) return false;
+  if (typeof m.merkleRoot !== "string") return false;
+  if (!Array.isArray(m.chunkHashes) || m.chunkHashes.length === 0) return false;
+
+  return m.chunkHashes.every((h: unknown) => typeof h === "string" && h.startsWith("sha256:"));
+}
+
+/**
+ * Check that a manifest is consistent: one hash per chunk of the artifact and
+ * a Merkle root that matches the hashes
+ */
+export async function verifyChunkManifest(manifest: ChunkManifest, artifactSize: number): Promise<boolean> {
+  try {
+    if (manifest.chunkHashes.length !== Math.ceil(artifactSize / manifest.chunkSize)) return false;
+    const { root } = await buildMerkleTree(manifest.chunkHashes);
+    return root.toLowerCase() === manifest.merkleRoot.toLowerCase();
+  } catch (error) {
+    console.error("Chunk manifest verification failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Byte range of chunk `index` within the artifact
+ */
+export function getChunkRange(manifest: ChunkManifest, index: number, artifactSize: number): ByteRange {
+  const start = index * manifest.chunkSize;
+  return { start, end: Math.min(start + manifest.chunkSize, artifactSize) };
+}
+
+/**
+ * Merge chunk indices (ascending) into contiguous byte ranges
+ */
+function toRegions(indices: number[], chunkSize: number, size: number): ByteRange[] {
+  const regions: ByteRange[] = [];
+  for (const index of indices) {
+    const start = index * chunkSize;
+    const end = Math.min(start + chunkSize, size);
+    const last = regions[regions.length - 1];
+    if (last && last.end === start) last.end = end;
+    else regions.push({ start, end });
+  }
+  return regions;
+}
+
+/**
+ * Verify a byte range of the artifact, e.g. a partial download
+ * Chunks cut off at either edge of the range cannot be checked and are skipped
+ *
+ * @param data - The bytes of the range
+ * @param offset - Position of `data` within the artifact
+ */
+export async function verifyByteRange(
+  data: Blob,
+  offset: number,
+  manifest: ChunkManifest,
+  artifactSize: number,
+  options: HashOptions = {}
+): Promise<ChunkComparison> {
+  if (!Number.isInteger(offset) || offset < 0) throw new Error("Offset must be a non-negative integer");
+  if (offset + data.size > artifactSize) {
+    throw new Error(`Range ends at byte ${offset + data.size}, past the end of the artifact (${artifactSize} bytes)`);
+  }
+
+  const { chunkSize } = manifest;
+  const firstIndex = Math.ceil(offset / chunkSize);
+  const skip = firstIndex * chunkSize - offset;
+  const rangeEnd = offset + data.size;
+
+  const chunkHashes = skip < data.size
+    ? (await hashFileChunks(data.slice(skip), chunkSize, options)).chunkHashes
+    : [];
+
+  const mismatchedChunks: number[] = [];
+  let checkedChunks = 0;
+  let checkedBytes = 0;
+
+  chunkHashes.forEach((hash, i) => {
+    const index = firstIndex + i;
+    const { start, end } = getChunkRange(manifest, index, artifactSize);
+    if (end > rangeEnd) return; // Trailing partial chunk
+
+    checkedChunks++;
+    checkedBytes += end - start;
+    if (hash !== manifest.chunkHashes[index]) mismatchedChunks.push(index);
+  });
+
+  return {
+    manifestValid: await verifyChunkManifest(manifest, artifactSize),
+    checkedChunks,
+    checkedBytes,
+    mismatchedChunks,
+    modifiedRegions: toRegions(mismatchedChunks, chunkSize, artifactSize),
+  };
+}
+
+/**
+ * Compare a whole file with the manifest to find which regions differ
+ * Bytes added or removed at the end show up as modified regions as well
+ */
+export async function locateModifiedRegions(
+  file: Blob,
+  manifest: ChunkManifest,
+  artifactSize: number,
+  options: HashOptions = {}
+): Promise<ChunkComparison> {
+  const { chunkHashes } = await hashFileChunks(file, manifest.chunkSize, options);
+
+  const mismatchedChunks: number[] = [];
+  const count = Math.max(chunkHashes.length, manifest.chunkHashes.length);
+  for (let index = 0; index < count; index++) {
+    if (chunkHashes[index] !== manifest.chunkHashes[index]) mismatchedChunks.push(index);
+  }
+
+  return {
+    manifestValid: await verifyChunkManifest(manifest, artifactSize),
+    checkedChunks: count,
+    checkedBytes: Math.max(file.size, artifactSize),
+    mismatchedChunks,
+    modifiedRegions: toRegions(mismatchedChunks, manifest.chunkSize, Math.max(file.size, artifactSize)),
+  };
+}
+
+/**
+ * Human-readable byte range, e.g. "4,194,304–8,388,607"
+ */
+export function formatByteRange({ start, end }: ByteRange): string {
+  return `${start.toLocaleString()}–${(end - 1).toLocaleString()}`;
+}
+
+/**
+ * Human-readable chunk size, e.g. "4 MB"
+ */
+export function formatChunkSize(bytes: number): string {
+  return bytes >= MiB ? `${bytes / MiB} MB` : `${bytes / 1024} KB`;
+}
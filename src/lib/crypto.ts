@@ -1,12 +1,108 @@
 /**
  * Cryptographic utilities for OpenTruth
  * Uses Web Crypto API for SHA-256 hashing (zero dependencies)
+ *
+ * Files are hashed in Web Workers, streamed slice by slice through an
+ * incremental SHA-256 (see sha256.ts), so multi-GB files never have to fit in
+ * memory. At most MAX_HASH_WORKERS files are hashed at the same time across
+ * the whole app; further requests wait in a queue.
+ */
+
+import { digestBlob, digestBlobChunks } from './sha256';
+import type { HashWorkerRequest, HashWorkerResponse } from './hash.worker';
+
+export interface HashProgress {
+  bytesHashed: number;
+  totalBytes: number;
+}
+
+export interface HashOptions {
+  onProgress?: (progress: HashProgress) => void;
+}
+
+/**
+ * Whole-file hash plus the hash of each fixed-size chunk
  */
+export interface ChunkedHash {
+  hash: string;
+  chunkHashes: string[]; // "sha256:" prefixed, in file order
+}
+
+/**
+ * Files hashed concurrently (one worker each)
+ */
+const MAX_HASH_WORKERS = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+
+interface HashJob {
+  file: Blob;
+  chunkSize?: number;
+  onProgress?: (bytesHashed: number) => void;
+  resolve: (result: { hash: string; chunkHashes?: string[] }) => void;
+  reject: (error: Error) => void;
+}
+
+const hashQueue: HashJob[] = [];
+const idleWorkers: Worker[] = [];
+let busyWorkers = 0;
+let nextJobId = 0;
+
+function runHashJobs(): void {
+  while (busyWorkers < MAX_HASH_WORKERS && hashQueue.length > 0) {
+    const job = hashQueue.shift()!;
+    const worker = idleWorkers.pop() ??
+      new Worker(new URL('./hash.worker.ts', import.meta.url), { type: 'module' });
+    const id = nextJobId++;
+    busyWorkers++;
+
+    const finish = (reusable: boolean) => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      if (reusable) idleWorkers.push(worker);
+      else worker.terminate();
+      busyWorkers--;
+      runHashJobs();
+    };
+
+    worker.onmessage = ({ data }: MessageEvent<HashWorkerResponse>) => {
+      if (data.id !== id) return;
+      if (data.type === 'progress') {
+        job.onProgress?.(data.bytesHashed);
+      } else if (data.type === 'done') {
+        finish(true);
+        job.resolve({ hash: data.hash, chunkHashes: data.chunkHashes });
+      } else {
+        finish(true);
+        job.reject(new Error(data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish(false);
+      job.reject(new Error(event.message || 'Hash worker crashed'));
+    };
+
+    worker.postMessage({ id, file: job.file, chunkSize: job.chunkSize } satisfies HashWorkerRequest);
+  }
+}
+
+function queueHashJob(job: Omit<HashJob, 'resolve' | 'reject'>): Promise<{ hash: string; chunkHashes?: string[] }> {
+  return new Promise((resolve, reject) => {
+    hashQueue.push({ ...job, resolve, reject });
+    runHashJobs();
+  });
+}
+
+function reportBytes(totalBytes: number, options: HashOptions) {
+  return options.onProgress &&
+    ((bytesHashed: number) => options.onProgress!({ bytesHashed, totalBytes }));
+}
 
 /**
  * Compute SHA-256 hash of a file
+ * Streams the file in a Web Worker; falls back to the current thread where
+ * workers are unavailable
  *
  * @param file - The file to hash
+ * @param options.onProgress - Called as slices are hashed
  * @returns Promise resolving to hash string with "sha256:" prefix
  *
  * @example
@@ -16,21 +112,50 @@
  * // Returns: "sha256:2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824"
  * ```
  */
-export async function hashFile(file: File): Promise<string> {
+export async function hashFile(file: File | Blob, options: HashOptions = {}): Promise<string> {
+  const onProgress = reportBytes(file.size, options);
+
   try {
-    const buffer = await file.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    return `sha256:${hashHex}`;
+    if (typeof Worker === 'undefined') {
+      return `sha256:${await digestBlob(file, onProgress)}`;
+    }
+
+    return (await queueHashJob({ file, onProgress })).hash;
   } catch (error) {
     console.error('Error hashing file:', error);
     throw new Error(`Failed to hash file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Compute the SHA-256 hash of a file and of each `chunkSize`-byte chunk
+ * in one pass (used for chunk manifests, see chunks.ts)
+ *
+ * @param file - The file to hash
+ * @param chunkSize - Bytes per chunk; the last chunk may be shorter
+ * @param options.onProgress - Called as slices are hashed
+ */
+export async function hashFileChunks(
+  file: File | Blob,
+  chunkSize: number,
+  options: HashOptions = {}
+): Promise<ChunkedHash> {
+  const onProgress = reportBytes(file.size, options);
+
+  try {
+    if (typeof Worker === 'undefined') {
+      const { hash, chunkHashes } = await digestBlobChunks(file, chunkSize, onProgress);
+      return { hash: `sha256:${hash}`, chunkHashes: chunkHashes.map((h) => `sha256:${h}`) };
+    }
+
+    const { hash, chunkHashes = [] } = await queueHashJob({ file, chunkSize, onProgress });
+    return { hash, chunkHashes };
+  } catch (error) {
+    console.error('Error hashing file chunks:', error);
+    throw new Error(`Failed to hash file chunks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Compute SHA-256 hash of a string
  *
@@ -61,9 +186,10 @@ export async function hashString(input: string): Promise<string> {
 
 /**
  * Hash multiple files and return array of hashes
- * Processes files in parallel for performance
+ * Files are queued on the shared worker pool, so only a few are read at once
  *
  * @param files - Array of files to hash
+ * @param options.onProgress - Combined progress across all files
  * @returns Promise resolving to array of hash strings
  *
  * @example
@@ -73,9 +199,19 @@ export async function hashString(input: string): Promise<string> {
  * // Returns: ["sha256:abc...", "sha256:def...", "sha256:ghi..."]
  * ```
  */
-export async function hashFiles(files: File[]): Promise<string[]> {
+export async function hashFiles(files: File[], options: HashOptions = {}): Promise<string[]> {
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+  const hashed = new Array<number>(files.length).fill(0);
+  let bytesHashed = 0;
+
   try {
-    return await Promise.all(files.map(f => hashFile(f)));
+    return await Promise.all(files.map((f, i) => hashFile(f, {
+      onProgress: options.onProgress && (({ bytesHashed: fileBytes }) => {
+        bytesHashed += fileBytes - hashed[i];
+        hashed[i] = fileBytes;
+        options.onProgress!({ bytesHashed, totalBytes });
+      }),
+    })));
   } catch (error) {
     console.error('Error hashing multiple files:', error);
     throw new Error(`Failed to hash files: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -125,7 +261,7 @@ export async function hashBytes(data: ArrayBuffer | Uint8Array): Promise<string>
  * }
  * ```
  */
-export async function verifyFileHash(file: File, expectedHash: string): Promise<boolean> {
+export async function verifyFileHash(file: File | Blob, expectedHash: string): Promise<boolean> {
   try {
     const actualHash = await hashFile(file);
     const normalizedExpected = expectedHash.startsWith('sha256:')
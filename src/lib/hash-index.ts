@@ -0,0 +1,241 @@
+import type { OpenTruthCertificate } from "../types";
+import type { StoredCertificate } from "./storage";
+import { getAllCertificates } from "./storage";
+import { getCertificate, readFromWalrus, uploadToWalrus } from "./walrus";
+
+/**
+ * Reverse lookup: file hash → certificates
+ *
+ * Lookups fan out over every registered index. The local library is always
+ * registered; remote indexes (a static JSON index on Walrus, an on-chain
+ * registry, ...) implement the same `CertificateIndex` interface and are added
+ * with `registerCertificateIndex`.
+ */
+
+export interface CertificateIndexEntry {
+  certificateBlobId: string;
+  artifactHash: string;
+  match: "artifact" | "dataset"; // Certificate for the file itself, or a dataset containing it
+  filename?: string;
+  timestamp?: number;
+}
+
+export interface CertificateIndex {
+  name: string;
+  lookup(fileHash: string): Promise<CertificateIndexEntry[]>;
+}
+
+export interface LookupResult extends CertificateIndexEntry {
+  sources: string[]; // Names of the indexes that returned this certificate
+}
+
+/**
+ * Published index format: one entry per certified artifact
+ */
+export interface HashIndexDocument {
+  version: "1.0";
+  type: "opentruth.hash-index";
+  createdAt: number;
+  entries: CertificateIndexEntry[];
+}
+
+const normalize = (hash: string) => hash.trim().toLowerCase();
+
+/**
+ * Index entries for a set of stored certificates
+ * Dataset certificates also index each of their file hashes
+ */
+function indexEntries(stored: StoredCertificate[]): CertificateIndexEntry[] {
+  return stored.flatMap(({ id, certificate }) => [
+    {
+      certificateBlobId: id,
+      artifactHash: certificate.artifact.hash,
+      match: "artifact" as const,
+      filename: certificate.artifact.filename,
+      timestamp: certificate.timestamp,
+    },
+    ...(certificate.dataset?.fileHashes ?? []).map((hash) => ({
+      certificateBlobId: id,
+      artifactHash: hash,
+      match: "dataset" as const,
+      filename: certificate.artifact.filename,
+      timestamp: certificate.timestamp,
+    })),
+  ]);
+}
+
+/**
+ * Index over the certificates saved in this browser
+ */
+export const localCertificateIndex: CertificateIndex = {
+  name: "Local library",
+  async lookup(fileHash) {
+    const hash = normalize(fileHash);
+    return indexEntries(getAllCertificates()).filter((e) => normalize(e.artifactHash) === hash);
+  },
+};
+
+/**
+ * Validate a published hash index document
+ */
+export function validateHashIndex(doc: unknown): doc is HashIndexDocument {
+  const index = doc as HashIndexDocument;
+  return (
+    index?.type === "opentruth.hash-index" &&
+    Array.isArray(index.entries) &&
+    index.entries.every(
+      (e) => typeof e?.certificateBlobId === "string" && typeof e?.artifactHash === "string"
+    )
+  );
+}
+
+/**
+ * Index backed by a static JSON document published to Walrus
+ * The document is fetched once and cached for the lifetime of the index
+ */
+export function createWalrusHashIndex(blobId: string, name = "Walrus index"): CertificateIndex {
+  let cached: Promise<HashIndexDocument> | null = null;
+
+  const load = () => {
+    if (!cached) {
+      cached = readFromWalrus(blobId)
+        .then((blob) => blob.text())
+        .then((text) => {
+          const doc: unknown = JSON.parse(text);
+          if (!validateHashIndex(doc)) {
+            throw new Error("Blob is not an OpenTruth hash index");
+          }
+          return doc;
+        });
+      // Allow a retry on the next lookup if the fetch failed
+      cached.catch(() => { cached = null; });
+    }
+    return cached;
+  };
+
+  return {
+    name,
+    async lookup(fileHash) {
+      const hash = normalize(fileHash);
+      const doc = await load();
+      return doc.entries
+        .filter((e) => normalize(e.artifactHash) === hash)
+        .map((e) => ({ ...e, match: e.match === "dataset" ? "dataset" : "artifact" }));
+    },
+  };
+}
+
+const indexes: CertificateIndex[] = [localCertificateIndex];
+
+const defaultIndexBlobId = import.meta.env.VITE_HASH_INDEX_BLOB_ID;
+if (defaultIndexBlobId) {
+  indexes.push(createWalrusHashIndex(defaultIndexBlobId));
+}
+
+/**
+ * Add a remote index to every subsequent lookup
+ */
+export function registerCertificateIndex(index: CertificateIndex): void {
+  if (!indexes.some((i) => i.name === index.name)) {
+    indexes.push(index);
+  }
+}
+
+export function getCertificateIndexes(): CertificateIndex[] {
+  return [...indexes];
+}
+
+/**
+ * Find every known certificate for a file hash
+ *
+ * Results are merged by certificate blob ID. A failing index does not fail the
+ * lookup; its error is returned alongside the results.
+ */
+export async function findCertificatesByHash(
+  fileHash: string,
+  sources: CertificateIndex[] = indexes
+): Promise<{ results: LookupResult[]; errors: Array<{ index: string; message: string }> }> {
+  const merged = new Map<string, LookupResult>();
+  const errors: Array<{ index: string; message: string }> = [];
+
+  const settled = await Promise.allSettled(sources.map((index) => index.lookup(fileHash)));
+
+  settled.forEach((outcome, i) => {
+    const name = sources[i].name;
+    if (outcome.status === "rejected") {
+      console.warn(`Certificate index "${name}" lookup failed:`, outcome.reason);
+      errors.push({
+        index: name,
+        message: outcome.reason instanceof Error ? outcome.reason.message : "Lookup failed",
+      });
+      return;
+    }
+
+    for (const entry of outcome.value) {
+      const key = `${entry.certificateBlobId}:${entry.match}`;
+      const existing = merged.get(key);
+      if (existing) {
+        if (!existing.sources.includes(name)) existing.sources.push(name);
+      } else {
+        merged.set(key, { ...entry, sources: [name] });
+      }
+    }
+  });
+
+  const results = [...merged.values()].sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+  return { results, errors };
+}
+
+/**
+ * Find the blob ID a certificate (e.g. loaded from a JSON file) is stored under
+ *
+ * Candidates come from the hash indexes, plus `hint` when the user supplied
+ * one. A candidate only counts if the certificate stored there carries the
+ * same signature, so an unrelated blob cannot stand in for it.
+ */
+export async function resolveCertificateBlobId(
+  certificate: OpenTruthCertificate,
+  hint?: string,
+  sources: CertificateIndex[] = indexes
+): Promise<string | undefined> {
+  const signature = certificate.proofs.signature.signature;
+  const candidates = hint?.trim() ? [hint.trim()] : [];
+  const { results } = await findCertificatesByHash(certificate.artifact.hash, sources);
+  results
+    .filter((r) => r.match === "artifact" && !candidates.includes(r.certificateBlobId))
+    .forEach((r) => candidates.push(r.certificateBlobId));
+
+  const library = getAllCertificates();
+  for (const blobId of candidates) {
+    try {
+      const stored = library.find((entry) => entry.id === blobId)?.certificate ?? await getCertificate(blobId);
+      if (stored?.proofs?.signature?.signature === signature) return blobId;
+    } catch (error) {
+      console.warn("Skipping unreadable certificate candidate:", blobId, error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build a publishable index from the local library
+ */
+export function buildHashIndex(stored: StoredCertificate[] = getAllCertificates()): HashIndexDocument {
+  return {
+    version: "1.0",
+    type: "opentruth.hash-index",
+    createdAt: Date.now(),
+    entries: indexEntries(stored),
+  };
+}
+
+/**
+ * Publish the local library's index to Walrus and return its blob ID
+ */
+export async function publishHashIndex(options?: { epochs?: number }): Promise<string> {
+  const blob = new Blob([JSON.stringify(buildHashIndex(), null, 2)], {
+    type: "application/json",
+  });
+  const { blobId } = await uploadToWalrus(blob, options);
+  return blobId;
+}
@@ -0,0 +1,33 @@
+import { digestBlob, digestBlobChunks } from './sha256';
+
+/**
+ * Hashing worker: streams a File through SHA-256 off the main thread
+ * Used via the pool in crypto.ts
+ */
+
+export type HashWorkerRequest = { id: number; file: Blob; chunkSize?: number };
+
+export type HashWorkerResponse =
+  | { id: number; type: 'progress'; bytesHashed: number }
+  | { id: number; type: 'done'; hash: string; chunkHashes?: string[] }
+  | { id: number; type: 'error'; message: string };
+
+// The app is type-checked with DOM typings, where postMessage needs a target origin
+const scope = self as unknown as { postMessage(message: HashWorkerResponse): void };
+const post = (message: HashWorkerResponse) => scope.postMessage(message);
+
+self.onmessage = async ({ data }: MessageEvent<HashWorkerRequest>) => {
+  const { id, file, chunkSize } = data;
+  const onProgress = (bytesHashed: number) => post({ id, type: 'progress', bytesHashed });
+  try {
+    if (chunkSize) {
+      const { hash, chunkHashes } = await digestBlobChunks(file, chunkSize, onProgress);
+      post({ id, type: 'done', hash: `sha256:${hash}`, chunkHashes: chunkHashes.map((h) => `sha256:${h}`) });
+    } else {
+      const hex = await digestBlob(file, onProgress);
+      post({ id, type: 'done', hash: `sha256:${hex}` });
+    }
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
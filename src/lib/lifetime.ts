@@ -0,0 +1,161 @@
+import { getActiveNetwork, getNetworkConfig, type NetworkConfig } from "../config/networks";
+import { updateCertificateMetadata, type BlobLifetime, type StorageLifetime, type StoredCertificate } from "./storage";
+import { renewBlob, serializeCertificate, type WalrusUploadOptions, type WalrusUploadResponse } from "./walrus";
+
+/**
+ * Walrus blob lifetimes
+ *
+ * Walrus stores a blob for a fixed number of epochs (one day on testnet, two
+ * weeks on mainnet), after which it can no longer be read and a certificate
+ * stops resolving. The library records when each certificate's blobs expire
+ * and renews them by re-uploading the same bytes, which keeps their blob IDs,
+ * so the certificate keeps its identity.
+ */
+
+export type LifetimeStatus = "active" | "expiring" | "expired" | "unknown";
+
+export const DEFAULT_STORAGE_EPOCHS = 5;
+
+const STORAGE_EPOCH_OPTIONS = [1, 5, 26, 53];
+
+/**
+ * Blobs expiring within this many epochs are flagged for renewal
+ */
+const RENEWAL_WINDOW_EPOCHS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage durations offered at upload and renewal
+ */
+export function getStorageEpochOptions(network: NetworkConfig = getNetworkConfig()): number[] {
+  return STORAGE_EPOCH_OPTIONS.filter((epochs) => epochs <= network.walrus.maxEpochs);
+}
+
+/**
+ * e.g. "5 epochs (~5 days)" or "53 epochs (~2 years)"
+ */
+export function formatStorageDuration(epochs: number, network: NetworkConfig = getNetworkConfig()): string {
+  const days = Math.round((epochs * network.walrus.epochDurationMs) / DAY_MS);
+  const approx = days >= 365 ? `${Math.round(days / 365)} year(s)` :
+    days >= 60 ? `${Math.round(days / 30)} months` :
+    `${days} day(s)`;
+  return `${epochs} epoch${epochs === 1 ? "" : "s"} (~${approx})`;
+}
+
+/**
+ * Lifetime of a fresh upload, when the publisher reported one
+ */
+export function toBlobLifetime(upload: WalrusUploadResponse): BlobLifetime | undefined {
+  if (upload.endEpoch === undefined || upload.expiresAt === undefined) return undefined;
+  return { endEpoch: upload.endEpoch, expiresAt: upload.expiresAt };
+}
+
+/**
+ * Whichever of the certificate and file blobs expires first
+ */
+export function getEarliestExpiry(lifetime?: StorageLifetime): BlobLifetime | undefined {
+  const blobs = [lifetime?.certificate, lifetime?.file].filter((b): b is BlobLifetime => !!b);
+  return blobs.sort((a, b) => a.expiresAt - b.expiresAt)[0];
+}
+
+export function getLifetimeStatus(
+  entry: StoredCertificate,
+  now: number = Date.now()
+): { status: LifetimeStatus; expiresAt?: number } {
+  const earliest = getEarliestExpiry(entry.storageLifetime);
+  if (!earliest) return { status: "unknown" };
+
+  const { epochDurationMs } = getNetworkConfig(entry.certificate.storage.network).walrus;
+  const remaining = earliest.expiresAt - now;
+  const status = remaining <= 0 ? "expired" :
+    remaining < RENEWAL_WINDOW_EPOCHS * epochDurationMs ? "expiring" :
+    "active";
+
+  return { status, expiresAt: earliest.expiresAt };
+}
+
+/**
+ * Lifetime of a re-uploaded blob, from the end epoch Walrus reported
+ *
+ * A publisher that finds the blob already certified for long enough stores
+ * nothing new, so an end epoch that did not move past `previous` means the
+ * renewal did nothing (returned as `extended: false` with the old lifetime).
+ */
+function renewedLifetime(
+  upload: WalrusUploadResponse,
+  previous: BlobLifetime | undefined,
+  network: NetworkConfig
+): { lifetime?: BlobLifetime; extended: boolean } {
+  if (upload.endEpoch === undefined) return { lifetime: previous, extended: false };
+  if (!previous) return { lifetime: toBlobLifetime(upload), extended: true };
+  if (upload.endEpoch <= previous.endEpoch) return { lifetime: previous, extended: false };
+
+  // Epochs are counted from the recorded expiry, which the re-upload moved
+  return {
+    lifetime: {
+      endEpoch: upload.endEpoch,
+      expiresAt: previous.expiresAt + (upload.endEpoch - previous.endEpoch) * network.walrus.epochDurationMs,
+    },
+    extended: true,
+  };
+}
+
+/**
+ * Extend the certificate blob and its stored file by `epochs` epochs
+ * The certificate falls back to the local copy if its blob already expired;
+ * an expired file can only be restored from identical bytes, so it fails.
+ * Lifetimes are only recorded as extended when Walrus reports a later end
+ * epoch; a blob that did not move fails the renewal after saving the rest.
+ */
+export async function renewCertificateStorage(
+  entry: StoredCertificate,
+  epochs: number,
+  options: WalrusUploadOptions = {}
+): Promise<StorageLifetime> {
+  const { network, walrusBlobId } = entry.certificate.storage;
+  if (network !== getActiveNetwork()) {
+    throw new Error(`This certificate is stored on ${network}. Switch networks to renew it.`);
+  }
+
+  const networkConfig = getNetworkConfig(network);
+  const previous = entry.storageLifetime;
+
+  let storageLifetime: StorageLifetime;
+  const unchanged: string[] = [];
+  try {
+    const certificateUpload = await renewBlob(entry.id, epochs, {
+      ...options,
+      fallback: serializeCertificate(entry.certificate),
+    });
+    const certificate = renewedLifetime(certificateUpload, previous?.certificate, networkConfig);
+    if (!certificate.extended) unchanged.push("certificate");
+
+    // Dataset certificates have no separate file blob
+    let file: BlobLifetime | undefined;
+    if (walrusBlobId && walrusBlobId !== entry.id) {
+      const fileUpload = await renewBlob(walrusBlobId, epochs, options);
+      const renewed = renewedLifetime(fileUpload, previous?.file, networkConfig);
+      if (!renewed.extended) unchanged.push("file");
+      file = renewed.lifetime;
+    }
+
+    storageLifetime = {
+      certificate: certificate.lifetime,
+      file,
+      renewedAt: Date.now(),
+    };
+    updateCertificateMetadata(entry.id, { storageLifetime });
+  } catch (error) {
+    console.error("Storage renewal failed:", error);
+    throw new Error(`Renewal failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  if (unchanged.length > 0) {
+    throw new Error(
+      `Renewal did nothing for the ${unchanged.join(" and ")}: Walrus did not report a later end epoch. ` +
+      "It may already be stored for at least that long."
+    );
+  }
+  return storageLifetime;
+}
@@ -0,0 +1,272 @@
+import type { CertificateReference, OpenTruthCertificate } from "../types";
+import { getCertificate } from "./walrus";
+import { validateCertificate, verifyFileMatchesCertificate } from "./certificate";
+import { verifyCertificateSignature } from "./sui";
+import { buildMerkleTree } from "./merkle";
+import { getAllCertificates } from "./storage";
+
+/**
+ * Provenance chain verification: dataset → checkpoint → output
+ *
+ * Links are checked by hash:
+ * - output.model.checkpointHash must equal the checkpoint certificate's
+ *   model.checkpointHash (or its artifact.hash)
+ * - checkpoint.model.datasetMerkleRoot (and output.model.datasetMerkleRoot,
+ *   if set) must equal the dataset certificate's dataset.merkleRoot
+ *
+ * Certificates without an explicit blob ID are resolved through `trainedOn`
+ * references first, then the local library.
+ */
+
+export type LineageHopKind = "dataset" | "checkpoint" | "output";
+
+export interface LineageCheck {
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface LineageHop {
+  kind: LineageHopKind;
+  status: "pass" | "fail" | "skipped";
+  blobId?: string;
+  certificate?: OpenTruthCertificate;
+  resolvedFrom?: "input" | "reference" | "library";
+  checks: LineageCheck[];
+  error?: string;
+}
+
+export interface LineageResult {
+  valid: boolean;
+  hops: LineageHop[]; // Always ordered dataset, checkpoint, output
+}
+
+export interface VerifyLineageParams {
+  outputBlobId: string;
+  checkpointBlobId?: string;
+  datasetBlobId?: string;
+  file?: File; // Optional output artifact to hash against the output certificate
+}
+
+const sameHash = (a?: string, b?: string) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Fetch and structurally validate a certificate
+ */
+async function loadCertificate(blobId: string): Promise<OpenTruthCertificate> {
+  const certificate = await getCertificate(blobId);
+  if (!validateCertificate(certificate)) {
+    throw new Error("Invalid certificate structure");
+  }
+  return certificate;
+}
+
+async function signatureCheck(certificate: OpenTruthCertificate): Promise<LineageCheck> {
+  const ok = await verifyCertificateSignature(
+    certificate,
+    certificate.proofs.signature.signature,
+    certificate.proofs.signature.publicKey
+  );
+  return { label: "Signature", ok };
+}
+
+/**
+ * Fetch a referenced certificate and check it is the artifact the reference expects
+ */
+export async function resolveReference(
+  reference: CertificateReference
+): Promise<{ certificate: OpenTruthCertificate; hashMatch: boolean }> {
+  const certificate = await loadCertificate(reference.certificateBlobId);
+  return {
+    certificate,
+    hashMatch: sameHash(certificate.artifact.hash, reference.artifactHash),
+  };
+}
+
+/**
+ * Find a certificate in the local library matching a predicate
+ */
+function findInLibrary(
+  predicate: (cert: OpenTruthCertificate) => boolean
+): { id: string; certificate: OpenTruthCertificate } | undefined {
+  return getAllCertificates().find((entry) => predicate(entry.certificate));
+}
+
+/**
+ * Resolve a hop's certificate from an explicit blob ID, a reference or the local library
+ */
+async function resolveHop(
+  kind: LineageHopKind,
+  blobId: string | undefined,
+  matches: (cert: OpenTruthCertificate) => boolean,
+  references: CertificateReference[] = []
+): Promise<LineageHop> {
+  const hop: LineageHop = { kind, status: "fail", checks: [] };
+
+  try {
+    if (blobId) {
+      hop.blobId = blobId;
+      hop.resolvedFrom = "input";
+      hop.certificate = await loadCertificate(blobId);
+      return hop;
+    }
+
+    for (const reference of references.filter((r) => r.relation === "trainedOn")) {
+      try {
+        const { certificate, hashMatch } = await resolveReference(reference);
+        if (!matches(certificate)) continue;
+
+        hop.blobId = reference.certificateBlobId;
+        hop.resolvedFrom = "reference";
+        hop.certificate = certificate;
+        hop.checks.push({ label: "Reference artifact hash", ok: hashMatch, detail: reference.artifactHash });
+        return hop;
+      } catch (error) {
+        console.warn("Skipping unresolvable reference:", reference.certificateBlobId, error);
+      }
+    }
+
+    const found = findInLibrary(matches);
+    if (!found) {
+      hop.error = `No ${kind} certificate found by blob ID, reference or local library`;
+      return hop;
+    }
+    hop.blobId = found.id;
+    hop.resolvedFrom = "library";
+    hop.certificate = found.certificate;
+  } catch (error) {
+    hop.error = error instanceof Error ? error.message : `Failed to load ${kind} certificate`;
+  }
+
+  return hop;
+}
+
+function finalize(hop: LineageHop): LineageHop {
+  if (hop.status !== "skipped") {
+    hop.status = !hop.error && hop.checks.length > 0 && hop.checks.every((c) => c.ok)
+      ? "pass"
+      : "fail";
+  }
+  return hop;
+}
+
+/**
+ * Verify the full provenance chain of an output certificate
+ */
+export async function verifyLineage(params: VerifyLineageParams): Promise<LineageResult> {
+  const { outputBlobId, checkpointBlobId, datasetBlobId, file } = params;
+
+  // 1. Output
+  const output: LineageHop = { kind: "output", status: "fail", blobId: outputBlobId, resolvedFrom: "input", checks: [] };
+  try {
+    output.certificate = await loadCertificate(outputBlobId);
+  } catch (error) {
+    output.error = error instanceof Error ? error.message : "Failed to load output certificate";
+    return {
+      valid: false,
+      hops: [
+        { kind: "dataset", status: "skipped", checks: [] },
+        { kind: "checkpoint", status: "skipped", checks: [] },
+        output,
+      ],
+    };
+  }
+
+  const outputCert = output.certificate;
+  const checkpointHash = outputCert.model?.checkpointHash;
+
+  if (file) {
+    output.checks.push({
+      label: "File hash",
+      ok: await verifyFileMatchesCertificate(file, outputCert),
+    });
+  }
+  output.checks.push(await signatureCheck(outputCert));
+
+  if (!checkpointHash && !outputCert.model?.datasetMerkleRoot) {
+    output.checks.push({
+      label: "Model lineage",
+      ok: false,
+      detail: "Certificate declares neither a checkpoint hash nor a dataset root",
+    });
+  }
+
+  // 2. Checkpoint
+  let checkpoint: LineageHop;
+  if (checkpointHash) {
+    checkpoint = await resolveHop(
+      "checkpoint",
+      checkpointBlobId,
+      (cert) => sameHash(cert.model?.checkpointHash, checkpointHash) || sameHash(cert.artifact.hash, checkpointHash),
+      outputCert.references
+    );
+
+    if (checkpoint.certificate) {
+      const cert = checkpoint.certificate;
+      checkpoint.checks.push({
+        label: "Checkpoint hash",
+        ok: sameHash(cert.model?.checkpointHash, checkpointHash) || sameHash(cert.artifact.hash, checkpointHash),
+        detail: checkpointHash,
+      });
+      checkpoint.checks.push(await signatureCheck(cert));
+    }
+  } else {
+    checkpoint = { kind: "checkpoint", status: "skipped", checks: [] };
+  }
+
+  // 3. Dataset: the root comes from the checkpoint when there is one
+  const datasetRoot = checkpoint.certificate?.model?.datasetMerkleRoot ?? outputCert.model?.datasetMerkleRoot;
+  let dataset: LineageHop;
+  if (datasetRoot) {
+    dataset = await resolveHop(
+      "dataset",
+      datasetBlobId,
+      (cert) => sameHash(cert.dataset?.merkleRoot, datasetRoot),
+      [...(checkpoint.certificate?.references ?? []), ...(outputCert.references ?? [])]
+    );
+
+    if (dataset.certificate) {
+      const cert = dataset.certificate;
+      dataset.checks.push({
+        label: "Dataset Merkle root",
+        ok: sameHash(cert.dataset?.merkleRoot, datasetRoot),
+        detail: datasetRoot,
+      });
+
+      if (outputCert.model?.datasetMerkleRoot && checkpoint.certificate) {
+        dataset.checks.push({
+          label: "Output and checkpoint agree on dataset",
+          ok: sameHash(outputCert.model.datasetMerkleRoot, datasetRoot),
+        });
+      }
+
+      if (cert.dataset?.fileHashes?.length) {
+        let recomputed = "";
+        try {
+          recomputed = (await buildMerkleTree(cert.dataset.fileHashes)).root;
+        } catch {
+          // Reported as a failed check below
+        }
+        dataset.checks.push({
+          label: "Root recomputed from file hashes",
+          ok: sameHash(recomputed, cert.dataset.merkleRoot),
+        });
+      }
+
+      dataset.checks.push(await signatureCheck(cert));
+    }
+  } else {
+    dataset = {
+      kind: "dataset",
+      status: checkpoint.certificate ? "fail" : "skipped",
+      checks: [],
+      error: checkpoint.certificate ? "Checkpoint certificate does not reference a dataset root" : undefined,
+    };
+  }
+
+  const hops = [finalize(dataset), finalize(checkpoint), finalize(output)];
+  const valid = hops.every((h) => h.status !== "fail") && hops.some((h) => h.kind !== "output" && h.status === "pass");
+
+  return { valid, hops };
+}
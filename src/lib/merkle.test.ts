@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { Buffer } from "buffer";
+import { buildMerkleTree, getMerkleProof, hashMerkleLeaf, sha256Sync, verifyMerkleProof } from "./merkle";
+
+/**
+ * Test vectors from the README's Merkle tree specification: each file
+ * contains a single ASCII letter. Changing leaf or node prefixing, pair
+ * ordering or odd-node promotion breaks these roots.
+ */
+const VECTORS: Array<[string[], string]> = [
+  [["a"], "0xa23bd5b06da9048238a65b3f1d9d0b9e15fae3dde262688e6489aa4c763d1820"],
+  [["a", "b"], "0x73a57aee9ae28c072b7e0ed9b56a57a69cc6fb048a723d7f052177084d1250ee"],
+  [["a", "b", "c"], "0xc4a4805e4d4b30d79f415154dd9ac637d9c60e9d9abe0582b34b8d37398af28c"],
+  [["a", "b", "c", "d"], "0xf311c908be1927c53d4a3e17ab1f80aa0821d821056742f6efdb60b2ad051c1d"],
+  [["a", "b", "c", "d", "e"], "0xe7300d3a6d3b73c148e3eb83358ab42be27866d458874dd909e708bff3da3240"],
+];
+
+const fileHash = (content: string) =>
+  "sha256:" + Buffer.from(sha256Sync(new TextEncoder().encode(content))).toString("hex");
+
+describe("Merkle tree specification v1", () => {
+  it.each(VECTORS)("root of %j", async (files, expectedRoot) => {
+    const { root } = await buildMerkleTree(files.map(fileHash));
+    expect(root).toBe(expectedRoot);
+  });
+
+  it("uses the leaf hash as the root of a one-file dataset", async () => {
+    const { root } = await buildMerkleTree([fileHash("a")]);
+    expect(root).toBe(hashMerkleLeaf(fileHash("a")));
+  });
+
+  it.each(VECTORS)("proves every file of %j against the root", async (files, expectedRoot) => {
+    const hashes = files.map(fileHash);
+    const { tree } = await buildMerkleTree(hashes);
+
+    hashes.forEach((hash, index) => {
+      expect(verifyMerkleProof(getMerkleProof(tree, hash, index), hash, expectedRoot)).toBe(true);
+    });
+  });
+
+  it("rejects a file that is not in the dataset", async () => {
+    const [files, expectedRoot] = VECTORS[3];
+    const { tree } = await buildMerkleTree(files.map(fileHash));
+    const proof = getMerkleProof(tree, fileHash("a"), 0);
+
+    expect(verifyMerkleProof(proof, fileHash("z"), expectedRoot)).toBe(false);
+  });
+});
@@ -1,42 +1,100 @@
 import { MerkleTree } from "merkletreejs";
 import { Buffer } from "buffer";
+import CryptoJS from "crypto-js";
+import type { DatasetInclusionProof } from "../types";
 
 // Polyfill Buffer for browser
 if (typeof window !== "undefined") {
   (window as any).Buffer = Buffer;
 }
 
+/**
+ * OpenTruth Merkle tree specification (v1)
+ *
+ * Inputs are the SHA-256 file digests ("sha256:<hex>") in the order they
+ * appear in `dataset.fileHashes`.
+ *
+ * - Leaf:  H(0x00 || fileDigest), where fileDigest is the raw 32-byte digest
+ * - Node:  H(0x01 || min(a, b) || max(a, b)), children compared bytewise
+ *          (sorted pairs, so proofs carry no left/right flags)
+ * - Odd:   an unpaired node at the end of a level is promoted unchanged to
+ *          the next level (it is NOT duplicated or re-hashed)
+ * - Root:  "0x" + hex of the single remaining node; a one-file dataset's
+ *          root is its leaf hash
+ *
+ * H defaults to SHA-256. The 0x00/0x01 prefixes keep a leaf from ever being
+ * reinterpreted as an internal node (second-preimage protection).
+ *
+ * Chunk manifests (see chunks.ts) use the same tree, with the chunk digests
+ * of one file as the inputs.
+ */
+
+/**
+ * Synchronous hash function used for leaves and internal nodes
+ */
+export type MerkleHashFn = (data: Uint8Array) => Uint8Array;
+
+export interface MerkleOptions {
+  hashFn?: MerkleHashFn;
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Synchronous SHA-256 (merkletreejs cannot await Web Crypto)
+ */
+export function sha256Sync(data: Uint8Array): Uint8Array {
+  const digest = CryptoJS.SHA256(CryptoJS.lib.WordArray.create(data));
+  return Uint8Array.from(Buffer.from(digest.toString(CryptoJS.enc.Hex), "hex"));
+}
+
+function toDigestBuffer(hash: string): Buffer {
+  const clean = hash.replace(/^(sha256:|0x)/, "");
+  if (!/^[a-fA-F0-9]{64}$/.test(clean)) {
+    throw new Error(`Invalid SHA-256 digest: ${hash}`);
+  }
+  return Buffer.from(clean, "hex");
+}
+
+function hashWith(hashFn: MerkleHashFn, ...parts: Buffer[]): Buffer {
+  return Buffer.from(hashFn(Buffer.concat(parts)));
+}
+
+/**
+ * Compute the domain-separated leaf hash for a file digest
+ */
+export function hashMerkleLeaf(fileHash: string, options?: MerkleOptions): string {
+  const hashFn = options?.hashFn ?? sha256Sync;
+  return "0x" + hashWith(hashFn, LEAF_PREFIX, toDigestBuffer(fileHash)).toString("hex");
+}
+
 /**
  * Build Merkle tree from file hashes
  */
 export async function buildMerkleTree(
-  fileHashes: string[]
+  fileHashes: string[],
+  options?: MerkleOptions
 ): Promise<{ tree: MerkleTree; root: string }> {
   if (fileHashes.length === 0) {
     throw new Error("Cannot build Merkle tree with no hashes");
   }
 
   try {
-    // Remove "sha256:" prefix and convert to hex buffers
-    const cleanHashes = fileHashes.map((h) => h.replace(/^sha256:/, ""));
-    
-    // Convert hex strings to buffers for leaves
-    const leaves = cleanHashes.map((h) => Buffer.from(h, "hex"));
-
-    // Define hash function using Web Crypto API
-     async (data: Buffer): Promise<Buffer> => {
-      const uint8Array = new Uint8Array(data);
-      const hashBuffer = await crypto.subtle.digest("SHA-256", uint8Array);
-      return Buffer.from(hashBuffer);
-    };
-
-    // Build tree synchronously with pre-computed leaves
-    const tree = new MerkleTree(leaves, (_data: Buffer) => {
-      // Synchronous wrapper - we'll compute hashes in advance
-      throw new Error("Use async version");
-    }, { sortPairs: true });
-
-    // If we have leaves, we can get root directly
+    const hashFn = options?.hashFn ?? sha256Sync;
+    const leaves = fileHashes.map((h) => hashWith(hashFn, LEAF_PREFIX, toDigestBuffer(h)));
+
+    // Leaves are pre-hashed above; merkletreejs only hashes internal nodes,
+    // with the node prefix added after the pair has been sorted
+    const tree = new MerkleTree(
+      leaves,
+      (data: Buffer) => Buffer.from(hashFn(data)),
+      {
+        sortPairs: true,
+        concatenator: (inputs: Buffer[]) => Buffer.concat([NODE_PREFIX, ...inputs]),
+      }
+    );
+
     const root = tree.getRoot().toString("hex");
 
     return { tree, root: `0x${root}` };
@@ -48,15 +106,20 @@ export async function buildMerkleTree(
 
 /**
  * Generate Merkle proof for a specific file hash
+ * Pass `index` to disambiguate datasets that contain the same file twice
  */
 export function getMerkleProof(
   tree: MerkleTree,
-  fileHash: string
+  fileHash: string,
+  index?: number,
+  options?: MerkleOptions
 ): string[] {
-  const cleanHash = fileHash.replace(/^sha256:/, "");
-  const leaf = Buffer.from(cleanHash, "hex");
-  
-  const proof = tree.getProof(leaf);
+  const leaf = Buffer.from(hashMerkleLeaf(fileHash, options).slice(2), "hex");
+
+  const proof = tree.getProof(leaf, index);
+  if (proof.length === 0 && tree.getLeafCount() > 1) {
+    throw new Error(`File hash not found in Merkle tree: ${fileHash}`);
+  }
   return proof.map((p) => "0x" + p.data.toString("hex"));
 }
 
@@ -66,30 +129,69 @@ export function getMerkleProof(
 export function verifyMerkleProof(
   proof: string[],
   fileHash: string,
-  root: string
+  root: string,
+  options?: MerkleOptions
 ): boolean {
   try {
-    const cleanHash = fileHash.replace(/^sha256:/, "");
-    const leaf = Buffer.from(cleanHash, "hex");
-    const rootBuffer = Buffer.from(root.replace(/^0x/, ""), "hex");
-    
-    const proofBuffers = proof.map((p) => {
-      const clean = p.replace(/^0x/, "");
-      return Buffer.from(clean, "hex");
-    });
-
-    return MerkleTree.verify(proofBuffers, leaf, rootBuffer, (_data: Buffer) => {
-      throw new Error("Synchronous verification not supported");
-    });
+    const hashFn = options?.hashFn ?? sha256Sync;
+    let node = hashWith(hashFn, LEAF_PREFIX, toDigestBuffer(fileHash));
+
+    for (const sibling of proof) {
+      const siblingBuffer = toDigestBuffer(sibling);
+      const [left, right] = Buffer.compare(node, siblingBuffer) <= 0
+        ? [node, siblingBuffer]
+        : [siblingBuffer, node];
+      node = hashWith(hashFn, NODE_PREFIX, left, right);
+    }
+
+    return node.equals(toDigestBuffer(root));
   } catch (error) {
     console.error("Merkle proof verification failed:", error);
     return false;
   }
 }
 
+/**
+ * Create a portable inclusion proof bundle for one file of a certified dataset
+ */
+export function createInclusionProof(
+  tree: MerkleTree,
+  fileHash: string,
+  leafIndex: number,
+  datasetCertificateBlobId: string,
+  filename?: string
+): DatasetInclusionProof {
+  return {
+    version: "1.0",
+    type: "opentruth.inclusion-proof",
+    fileHash,
+    leafHash: hashMerkleLeaf(fileHash),
+    leafIndex,
+    siblings: getMerkleProof(tree, fileHash, leafIndex),
+    merkleRoot: "0x" + tree.getRoot().toString("hex"),
+    datasetCertificateBlobId,
+    filename,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Validate inclusion proof bundle structure
+ */
+export function validateInclusionProof(bundle: unknown): bundle is DatasetInclusionProof {
+  const b = bundle as Partial<DatasetInclusionProof> | null;
+  if (b?.type !== "opentruth.inclusion-proof") return false;
+  if (typeof b.fileHash !== "string" || !b.fileHash.startsWith("sha256:")) return false;
+  if (typeof b.merkleRoot !== "string") return false;
+  if (typeof b.datasetCertificateBlobId !== "string") return false;
+  if (!Array.isArray(b.siblings)) return false;
+
+  return b.siblings.every((s: unknown) => typeof s === "string");
+}
+
 /**
  * Get all leaves (for debugging)
  */
 export function getMerkleLeaves(tree: MerkleTree): string[] {
   return tree.getLeaves().map((leaf) => "0x" + leaf.toString("hex"));
-}
\ No newline at end of file
+}
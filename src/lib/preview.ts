@@ -0,0 +1,50 @@
+import { hashFile, type HashOptions } from "./crypto";
+import type { OpenTruthCertificate } from "../types";
+
+/**
+ * Artifact content fetched or decrypted in the browser, checked against its
+ * certificate before it is offered for download or preview
+ */
+
+export type PreviewKind = "image" | "video" | "audio" | "text";
+
+export interface CheckedFile {
+  url: string; // Object URL; revoke when done
+  hash: string;
+  matches: boolean; // hash === artifact.hash
+  text?: string; // Leading bytes of text files, for inline preview
+}
+
+export const PREVIEW_TEXT_BYTES = 64 * 1024;
+
+/**
+ * How a MIME type can be shown inline, if at all
+ */
+export function getPreviewKind(mimeType: string | undefined): PreviewKind | undefined {
+  if (!mimeType) return undefined;
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("text/") || mimeType === "application/json") return "text";
+  return undefined;
+}
+
+/**
+ * Re-hash artifact content against the certificate and prepare it for display
+ */
+export async function checkFileAgainstCertificate(
+  data: Blob,
+  certificate: OpenTruthCertificate,
+  options: HashOptions = {}
+): Promise<CheckedFile> {
+  const { mimeType } = certificate.artifact;
+  const blob = new Blob([data], { type: mimeType });
+  const hash = await hashFile(blob, options);
+
+  return {
+    url: URL.createObjectURL(blob),
+    hash,
+    matches: hash === certificate.artifact.hash,
+    text: getPreviewKind(mimeType) === "text" ? await blob.slice(0, PREVIEW_TEXT_BYTES).text() : undefined,
+  };
+}
@@ -0,0 +1,200 @@
+import type { useSignPersonalMessage } from "@mysten/dapp-kit";
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { OpenTruthCertificate, RevocationReason, RevocationRecord } from "../types";
+import { canonicalize } from "./canonical-json";
+import { signMessageAs, verifySignedMessage } from "./sui";
+import { getCertificate, uploadToWalrus } from "./walrus";
+import {
+  anchorRevocation,
+  getRevocationPointer,
+  isAnchoringConfigured,
+  normalizeBlobId,
+  type SignAndExecute,
+} from "./anchor";
+import { getAllCertificates, updateCertificateMetadata } from "./storage";
+
+/**
+ * Certificate revocation and supersession
+ *
+ * The author signs a revocation record (canonical JSON, like v1.1
+ * certificates) and stores it on Walrus. Its blob ID is then recorded against
+ * the certificate in the Sui registry so verifiers can discover it, and in the
+ * local library as a fallback when no registry is configured.
+ */
+
+export const REVOCATION_REASONS: Record<RevocationReason, string> = {
+  issuedInError: "Issued in error",
+  wrongFile: "Wrong file certified",
+  superseded: "Superseded by a newer certificate",
+  keyCompromise: "Signing key compromised",
+  other: "Other",
+};
+
+/**
+ * "unknown" when a lookup failed, so the certificate may still be revoked
+ */
+export type RevocationState = "active" | "revoked" | "superseded" | "unknown";
+
+export interface RevocationCheck {
+  status: RevocationState;
+  record?: RevocationRecord;
+  revocationBlobId?: string;
+  detail?: string;
+}
+
+export interface RevokeCertificateParams {
+  certificateBlobId: string;
+  certificate: OpenTruthCertificate;
+  reason: RevocationReason;
+  details?: string;
+  replacementBlobId?: string;
+}
+
+/**
+ * Message signed for a revocation record
+ */
+export function serializeRevocation(record: Omit<RevocationRecord, "proofs"> | RevocationRecord): string {
+  const unsigned: Record<string, unknown> = { ...record };
+  delete unsigned.proofs;
+  return canonicalize(unsigned);
+}
+
+/**
+ * Validate the structure of a revocation record
+ */
+export function validateRevocationRecord(doc: unknown): doc is RevocationRecord {
+  const record = doc as RevocationRecord;
+  return (
+    record?.type === "opentruth.revocation" &&
+    typeof record.certificateBlobId === "string" &&
+    typeof record.artifactHash === "string" &&
+    typeof record.reason === "string" &&
+    typeof record.author?.suiAddress === "string" &&
+    typeof record.proofs?.signature?.signature === "string"
+  );
+}
+
+/**
+ * Check a revocation record is signed by the certificate's author and targets it
+ */
+export async function verifyRevocationRecord(
+  record: RevocationRecord,
+  certificateBlobId: string,
+  certificate: OpenTruthCertificate
+): Promise<boolean> {
+  if (normalizeBlobId(record.certificateBlobId) !== normalizeBlobId(certificateBlobId)) return false;
+  if (record.artifactHash !== certificate.artifact.hash) return false;
+  if (normalizeSuiAddress(record.author.suiAddress) !== normalizeSuiAddress(certificate.author.suiAddress)) {
+    return false;
+  }
+
+  return verifySignedMessage(serializeRevocation(record), record.proofs.signature, record.author.suiAddress);
+}
+
+/**
+ * Sign, store and register a revocation record
+ *
+ * Registering on Sui is best effort: the record is already stored and saved
+ * locally, so a failure there is returned rather than thrown.
+ *
+ * @returns Walrus blob ID of the record and the Sui transaction digest or error
+ */
+export async function revokeCertificate(
+  params: RevokeCertificateParams,
+  signMessage: ReturnType<typeof useSignPersonalMessage>["mutateAsync"],
+  chain?: { client: SuiClient; signAndExecute: SignAndExecute }
+): Promise<{ revocationBlobId: string; digest?: string; anchorError?: string }> {
+  const { certificateBlobId, certificate, reason, details, replacementBlobId } = params;
+
+  const unsigned: Omit<RevocationRecord, "proofs"> = {
+    version: "1.0",
+    type: "opentruth.revocation",
+    timestamp: Date.now(),
+    certificateBlobId,
+    artifactHash: certificate.artifact.hash,
+    reason,
+    details: details?.trim() || undefined,
+    replacementBlobId: replacementBlobId?.trim() || undefined,
+    author: { suiAddress: certificate.author.suiAddress },
+  };
+
+  const signature = await signMessageAs(
+    serializeRevocation(unsigned),
+    certificate.author.suiAddress,
+    signMessage
+  );
+  const record: RevocationRecord = { ...unsigned, proofs: { signature } };
+
+  const blob = new Blob([JSON.stringify(record, null, 2)], { type: "application/json" });
+  const { blobId: revocationBlobId } = await uploadToWalrus(blob);
+
+  updateCertificateMetadata(certificateBlobId, { revocationBlobId });
+
+  if (!chain || !isAnchoringConfigured()) {
+    return { revocationBlobId };
+  }
+
+  try {
+    const digest = await anchorRevocation(chain.client, chain.signAndExecute, certificateBlobId, revocationBlobId);
+    return { revocationBlobId, digest };
+  } catch (error) {
+    return {
+      revocationBlobId,
+      anchorError: error instanceof Error ? error.message : "Revocation anchoring failed",
+    };
+  }
+}
+
+/**
+ * Find a valid revocation for a certificate
+ *
+ * Candidates come from the Sui registry (the author's entry only) and the local
+ * library. The first record that verifies decides the status. If none does
+ * and a lookup failed, the status is "unknown" rather than "active".
+ */
+export async function checkRevocation(
+  client: SuiClient | null,
+  certificateBlobId: string,
+  certificate: OpenTruthCertificate
+): Promise<RevocationCheck> {
+  const candidates = new Set<string>();
+  let detail: string | undefined;
+  let lookupFailed = false;
+
+  if (client && isAnchoringConfigured()) {
+    try {
+      const pointer = await getRevocationPointer(client, certificateBlobId, certificate.author.suiAddress);
+      if (pointer) candidates.add(pointer.revocationBlobId);
+    } catch (error) {
+      console.warn("Revocation lookup failed:", error);
+      detail = "Could not read the Sui registry";
+      lookupFailed = true;
+    }
+  }
+
+  const local = getAllCertificates().find(
+    (entry) => normalizeBlobId(entry.id) === normalizeBlobId(certificateBlobId)
+  );
+  if (local?.revocationBlobId) candidates.add(local.revocationBlobId);
+
+  for (const revocationBlobId of candidates) {
+    try {
+      const record: unknown = await getCertificate(revocationBlobId);
+      if (!validateRevocationRecord(record)) continue;
+      if (!(await verifyRevocationRecord(record, certificateBlobId, certificate))) continue;
+
+      return {
+        status: record.replacementBlobId ? "superseded" : "revoked",
+        record,
+        revocationBlobId,
+      };
+    } catch (error) {
+      console.warn("Skipping unreadable revocation record:", revocationBlobId, error);
+      detail = `Could not read revocation record ${revocationBlobId}`;
+      lookupFailed = true;
+    }
+  }
+
+  return { status: lookupFailed ? "unknown" : "active", detail };
+}
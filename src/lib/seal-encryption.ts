@@ -8,79 +8,98 @@ import {
   EncryptedObject, 
   SessionKey, 
   DemType,
-  type KeyServerConfig 
 } from '@mysten/seal';
-import { bcs } from '@mysten/sui/bcs';
-import { 
-  SEAL_PACKAGE_ID, 
-  KEY_SERVER_OBJECT_ID 
-} from '../config/seal-config';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getNetworkConfig, type NetworkConfig } from '../config/networks';
 import { SuiClient } from '@mysten/sui/client';
 import type { OpenTruthCertificate } from '../types';
+import { hashBytes, hashFile } from './crypto';
+import { readFromWalrus } from './walrus';
+import {
+  buildApprovalTransaction,
+  checkApproval,
+  createPolicyKeyId,
+  createTimelockKeyId,
+  describeSealError,
+} from './seal-policy';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
 /**
- * Threshold for localnet key server
- * Using 1 for single key server on localnet
+ * SealClient for the key servers of the active network (see config/networks.ts)
  */
-const DEFAULT_THRESHOLD = 1;
+export function createSealClient(
+  suiClient: SuiClient,
+  network: NetworkConfig = getNetworkConfig()
+): SealClient {
+  const { keyServers, threshold, verifyKeyServers } = network.seal;
+  if (keyServers.length < threshold) {
+    throw new Error(
+      `Configure at least ${threshold} Seal key server(s) for ${network.name} in VITE_KEY_SERVER_OBJECT_ID`
+    );
+  }
 
-/**
- * Key server configuration for localnet
- */
-function getKeyServerConfig(): KeyServerConfig {
-  return {
-    objectId: KEY_SERVER_OBJECT_ID,
-    weight: 1,
-  };
+  return new SealClient({
+    suiClient: suiClient as any, // Type assertion for compatibility
+    serverConfigs: keyServers,
+    verifyKeyServers,
+  });
 }
 
 // ============================================================================
 // ENCRYPTION
 // ============================================================================
 
+export type SealPolicy = NonNullable<NonNullable<OpenTruthCertificate['encryption']>['policy']>;
+
 export interface SealEncryptionResult {
   encryptedData: Uint8Array;
   packageId: string;
   keyId: string;
   threshold: number;
+  ciphertextHash: string; // "sha256:" prefixed hash of encryptedData
 }
 
 /**
  * Encrypt a file using Seal identity-based encryption
+ *
+ * @param options.allowlistId - Encrypt under an allowlist (see seal-policy.ts)
+ *   instead of for the owner alone
+ * @param options.unlockAt - Encrypt under a time-lock: anyone can decrypt
+ *   after this Unix ms timestamp, embedded in the key ID
  */
 export async function encryptFileWithSeal(
   file: File,
   ownerAddress: string,
-  suiClient: SuiClient
+  suiClient: SuiClient,
+  options: { allowlistId?: string; unlockAt?: number } = {}
 ): Promise<SealEncryptionResult> {
   try {
     if (!file?.size) throw new Error('Invalid file');
     if (!ownerAddress?.startsWith('0x')) throw new Error('Invalid owner address');
 
     const data = new Uint8Array(await file.arrayBuffer());
-    
-    // ✅ FIXED: Generate a valid 32-byte hex key ID from timestamp
-    const timestamp = Date.now();
-    const keyIdBuffer = new Uint8Array(32);
-    // Fill first 8 bytes with timestamp (Big-endian)
-    new DataView(keyIdBuffer.buffer).setBigUint64(0, BigInt(timestamp), false);
-    // Convert to hex string
-    const keyId = '0x' + Array.from(keyIdBuffer).map(b => b.toString(16).padStart(2, '0')).join('');
-
-    const sealClient = new SealClient({
-      suiClient: suiClient as any, // Type assertion for compatibility
-      serverConfigs: [getKeyServerConfig()],
-      verifyKeyServers: false,
-    });
+
+    if (options.unlockAt !== undefined && options.unlockAt <= Date.now()) {
+      throw new Error('Unlock time must be in the future');
+    }
+
+    // Key IDs start with the policy's prefix so seal_approve can bind them to it
+    const keyId = options.unlockAt !== undefined
+      ? createTimelockKeyId(options.unlockAt)
+      : createPolicyKeyId(options.allowlistId ?? ownerAddress);
+
+    const { packageId, threshold } = getNetworkConfig().seal;
+    if (!packageId) throw new Error('VITE_SEAL_PACKAGE_ID is not set');
+
+    const sealClient = createSealClient(suiClient);
 
     const { encryptedObject } = await sealClient.encrypt({
       demType: DemType.AesGcm256,
-      threshold: DEFAULT_THRESHOLD,
-      packageId: SEAL_PACKAGE_ID,
+      threshold,
+      packageId,
       id: keyId,
       data,
       aad: new Uint8Array(),
@@ -88,9 +107,10 @@ export async function encryptFileWithSeal(
 
     return {
       encryptedData: encryptedObject,
-      packageId: SEAL_PACKAGE_ID,
+      packageId,
       keyId,
-      threshold: DEFAULT_THRESHOLD,
+      threshold,
+      ciphertextHash: await hashBytes(encryptedObject),
     };
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -106,33 +126,39 @@ export interface SealDecryptionParams {
   encryptedData: Uint8Array;
   suiAddress: string;
   signMessage: (message: Uint8Array) => Promise<{ signature: string }>;
-  getTxBytes: () => Promise<Uint8Array>;
+  policy: SealPolicy; // From certificate.encryption; older certificates default to the author
   suiClient: SuiClient;
 }
 
 /**
  * Decrypt a file using Seal
+ * The policy's seal_approve is dry-run first so a denial comes back with a
+ * readable reason instead of a key server error
  */
 export async function decryptFileWithSeal(
   params: SealDecryptionParams
 ): Promise<Uint8Array> {
-  const { encryptedData, suiAddress, signMessage, getTxBytes, suiClient } = params;
+  const { encryptedData, suiAddress, signMessage, policy, suiClient } = params;
 
   try {
     if (!suiAddress?.startsWith('0x')) throw new Error('Invalid owner address');
 
     const encryptedObject = EncryptedObject.parse(encryptedData);
+    const packageId = normalizeSuiAddress(encryptedObject.packageId);
 
-    const sealClient = new SealClient({
-      suiClient: suiClient as any, // Type assertion for compatibility
-      serverConfigs: [getKeyServerConfig()],
-      verifyKeyServers: false, // Localnet only
+    const txBytes = await createDecryptionTransaction(suiClient, {
+      keyId: encryptedObject.id,
+      packageId,
+      policy,
     });
+    await checkApproval(suiClient, suiAddress, txBytes);
+
+    const sealClient = createSealClient(suiClient);
 
     // Use static factory method to create SessionKey
     const sessionKey = await SessionKey.create({
       address: suiAddress,
-      packageId: SEAL_PACKAGE_ID,
+      packageId,
       ttlMin: 30,
       suiClient: suiClient as any,
     });
@@ -140,13 +166,11 @@ export async function decryptFileWithSeal(
     const { signature } = await signMessage(sessionKey.getPersonalMessage());
     await sessionKey.setPersonalMessageSignature(signature);
 
-    const txBytes = await getTxBytes();
-
     await sealClient.fetchKeys({
       ids: [encryptedObject.id],
       txBytes,
       sessionKey,
-      threshold: DEFAULT_THRESHOLD,
+      threshold: encryptedObject.threshold,
     });
 
     return await sealClient.decrypt({
@@ -155,43 +179,119 @@ export async function decryptFileWithSeal(
       txBytes,
     });
   } catch (error) {
-    const msg = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Seal decryption failed: ${msg}`);
+    throw new Error(`Seal decryption failed: ${describeSealError(error)}`);
   }
 }
 
 // ============================================================================
-// HELPERS
+// VERIFICATION
 // ============================================================================
 
+export interface EncryptedArtifactCheck {
+  blobId: string;
+  ciphertextHash: string;
+  header?: { packageId: string; keyId: string; threshold: number; keyServers: number };
+  checks: {
+    headerValid: boolean; // The blob parses as a Seal EncryptedObject
+    keyIdMatch: boolean;
+    packageIdMatch: boolean;
+    thresholdMatch: boolean;
+    ciphertextHashMatch?: boolean; // Unset when the certificate predates recorded ciphertext hashes
+  };
+}
+
+function normalizeHex(hex: string): string {
+  return hex.replace(/^0x/, '').toLowerCase();
+}
+
 /**
- * Create a transaction proving ownership for decryption
+ * Check the stored ciphertext of an encrypted certificate without decrypting it
+ * The EncryptedObject header must name the certificate's key ID, package and
+ * threshold, and the blob must hash to the recorded ciphertext hash
  */
-export async function createDecryptionTransaction(sender: string): Promise<Uint8Array> {
-  if (!sender?.startsWith('0x')) throw new Error('Invalid sender address');
-
-  const txData = {
-    V1: {
-      kind: { ProgrammableTransaction: { inputs: [], commands: [] } },
-      sender,
-      gasData: { payment: [], owner: sender, price: '1000', budget: '10000000' },
-      expiration: { None: null },
+export async function verifyEncryptedArtifact(
+  certificate: OpenTruthCertificate,
+  options: { onProgress?: (fraction: number) => void } = {}
+): Promise<EncryptedArtifactCheck> {
+  const encryption = certificate.encryption;
+  if (!encryption?.enabled) throw new Error('Certificate is not encrypted');
+
+  const blobId = encryption.encryptedBlobId ?? certificate.storage.walrusBlobId;
+  const blob = await readFromWalrus(blobId);
+  const ciphertextHash = await hashFile(blob, {
+    onProgress: ({ bytesHashed, totalBytes }) => options.onProgress?.(bytesHashed / (totalBytes || 1)),
+  });
+  const ciphertextHashMatch = encryption.ciphertextHash === undefined
+    ? undefined
+    : ciphertextHash === encryption.ciphertextHash;
+
+  let parsed;
+  try {
+    parsed = EncryptedObject.parse(new Uint8Array(await blob.arrayBuffer()));
+  } catch (error) {
+    console.warn('EncryptedObject parse failed:', error);
+    return {
+      blobId,
+      ciphertextHash,
+      checks: {
+        headerValid: false,
+        keyIdMatch: false,
+        packageIdMatch: false,
+        thresholdMatch: false,
+        ciphertextHashMatch,
+      },
+    };
+  }
+
+  const header = {
+    packageId: normalizeSuiAddress(parsed.packageId),
+    keyId: normalizeHex(parsed.id),
+    threshold: parsed.threshold,
+    keyServers: parsed.services.length,
+  };
+
+  return {
+    blobId,
+    ciphertextHash,
+    header,
+    checks: {
+      headerValid: true,
+      keyIdMatch: !!encryption.keyId && normalizeHex(encryption.keyId) === header.keyId,
+      packageIdMatch: !!encryption.packageId && normalizeSuiAddress(encryption.packageId) === header.packageId,
+      thresholdMatch: encryption.threshold === undefined || encryption.threshold === header.threshold,
+      ciphertextHashMatch,
     },
   };
+}
 
-  return bcs.TransactionData.serialize(txData).toBytes();
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Create the seal_approve transaction proving access for decryption
+ */
+export async function createDecryptionTransaction(
+  suiClient: SuiClient,
+  params: { keyId: string; packageId?: string; policy: SealPolicy }
+): Promise<Uint8Array> {
+  return buildApprovalTransaction(suiClient, params);
 }
 
 /**
  * Add encryption metadata to certificate
+ * Call before signing so the encryption block is covered by the signature
+ * The policy defaults to owner-only access for the certificate author
  */
-export function addEncryptionToCertificate(
-  cert: OpenTruthCertificate,
+export function addEncryptionToCertificate<T extends Omit<OpenTruthCertificate, 'proofs' | 'storage'>>(
+  cert: T,
   encryptedBlobId: string,
   keyId: string,
-  threshold: number = DEFAULT_THRESHOLD,
-  packageId: string = SEAL_PACKAGE_ID
-): OpenTruthCertificate {
+  threshold: number = getNetworkConfig().seal.threshold,
+  packageId: string = getNetworkConfig().seal.packageId,
+  policy: SealPolicy = { type: 'userOwned', owner: cert.author.suiAddress },
+  ciphertextHash?: string
+): T {
   return {
     ...cert,
     encryption: {
@@ -200,6 +300,8 @@ export function addEncryptionToCertificate(
       packageId,
       keyId,
       threshold,
+      policy,
+      ciphertextHash,
     },
   };
 }
\ No newline at end of file
@@ -0,0 +1,344 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { bcs } from "@mysten/sui/bcs";
+import { fromHex, isValidSuiAddress, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+import { ExpiredSessionKeyError, NoAccessError } from "@mysten/seal";
+import type { OpenTruthCertificate } from "../types";
+import { getNetworkConfig } from "../config/networks";
+import type { SignAndExecute } from "./anchor";
+import type { SealPolicy } from "./seal-encryption";
+
+/**
+ * Seal access policies for encrypted artifacts (move/opentruth/sources)
+ *
+ * - `userOwned` (owner.move): key IDs are `[owner address][random nonce]` and
+ *   only the owner is approved.
+ * - `allowlist` (allowlist.move): an Allowlist is a shared object holding the
+ *   addresses allowed to decrypt. Key IDs are `[allowlist object ID][random
+ *   nonce]`. The uploader keeps the allowlist's Cap and can add or remove
+ *   grantees at any time; the change applies to every artifact encrypted
+ *   under that allowlist.
+ * - `timelock` (timelock.move): key IDs are `[BCS u64 unlock time][random
+ *   nonce]` and anyone is approved once the Sui clock passes the unlock time.
+ *
+ * Key servers dry-run the policy's `seal_approve` with the requester as sender
+ * before releasing key shares.
+ */
+
+/**
+ * Bytes of random nonce appended to the policy prefix in key IDs
+ */
+const KEY_ID_NONCE_BYTES = 5;
+
+/**
+ * Readable reasons for `seal_approve` aborts, by policy module and abort code
+ */
+const APPROVAL_ERRORS: Record<string, Record<number, string>> = {
+  owner: { 1: "Not the owner of this artifact" },
+  allowlist: { 1: "Not on allowlist" },
+  timelock: { 1: "Embargo has not lifted yet" },
+};
+
+/**
+ * Parse a list of Sui addresses separated by commas, spaces or newlines
+ * Duplicates are dropped; anything that is not a valid address is returned separately
+ */
+export function parseGrantees(text: string): { addresses: string[]; invalid: string[] } {
+  const addresses = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    if (isValidSuiAddress(token)) {
+      addresses.add(normalizeSuiAddress(token));
+    } else {
+      invalid.push(token);
+    }
+  }
+
+  return { addresses: [...addresses], invalid };
+}
+
+/**
+ * Key ID for a new artifact: a 32-byte policy prefix (owner address or
+ * allowlist object ID) followed by a random nonce (hex, no 0x prefix)
+ */
+export function createPolicyKeyId(prefix: string): string {
+  const nonce = crypto.getRandomValues(new Uint8Array(KEY_ID_NONCE_BYTES));
+  return toHex(new Uint8Array([...fromHex(normalizeSuiAddress(prefix)), ...nonce]));
+}
+
+/**
+ * Key ID for a new artifact under a time-lock policy (hex, no 0x prefix)
+ */
+export function createTimelockKeyId(unlockAt: number): string {
+  const nonce = crypto.getRandomValues(new Uint8Array(KEY_ID_NONCE_BYTES));
+  return toHex(new Uint8Array([...bcs.u64().serialize(unlockAt).toBytes(), ...nonce]));
+}
+
+/**
+ * Unlock time (Unix ms) embedded in a time-lock key ID
+ */
+export function getTimelockUnlockTime(keyId: string): number {
+  return Number(bcs.u64().parse(fromHex(keyId).slice(0, 8)));
+}
+
+/**
+ * Unlock time of a time-locked certificate; key servers enforce the time in
+ * the key ID, so it wins over policy.unlockAt. Undefined for other policies
+ * and for a malformed key ID (e.g. in an imported certificate).
+ */
+export function getCertificateUnlockTime(encryption: OpenTruthCertificate["encryption"]): number | undefined {
+  if (encryption?.policy?.type !== "timelock") return undefined;
+  if (!encryption.keyId) return encryption.policy.unlockAt;
+
+  try {
+    return getTimelockUnlockTime(encryption.keyId);
+  } catch (error) {
+    console.warn("Invalid time-lock key ID:", encryption.keyId, error);
+    return undefined;
+  }
+}
+
+/**
+ * Sign, execute and wait for a transaction, throwing on failure
+ */
+async function executeTransaction(
+  client: SuiClient,
+  signAndExecute: SignAndExecute,
+  transaction: Transaction
+) {
+  const { digest } = await signAndExecute({ transaction });
+  const result = await client.waitForTransaction({
+    digest,
+    options: { showEffects: true, showObjectChanges: true },
+  });
+
+  if (result.effects?.status.status !== "success") {
+    throw new Error(result.effects?.status.error || "Transaction failed");
+  }
+  return result;
+}
+
+/**
+ * Create a shared allowlist with the given grantees; the sender receives its Cap
+ *
+ * @returns Object IDs of the allowlist and its Cap
+ */
+export async function createAllowlist(
+  client: SuiClient,
+  signAndExecute: SignAndExecute,
+  grantees: string[],
+  packageId: string = getNetworkConfig().seal.packageId
+): Promise<{ allowlistId: string; capId: string }> {
+  try {
+    if (!packageId) throw new Error("VITE_SEAL_PACKAGE_ID is not set");
+
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${packageId}::allowlist::create_allowlist_entry`,
+      arguments: [tx.pure.vector("address", grantees)],
+    });
+
+    const { objectChanges } = await executeTransaction(client, signAndExecute, tx);
+    const created = (objectChanges ?? []).filter((c) => c.type === "created");
+    const allowlistId = created.find((c) => c.objectType.endsWith("::allowlist::Allowlist"))?.objectId;
+    const capId = created.find((c) => c.objectType.endsWith("::allowlist::Cap"))?.objectId;
+
+    if (!allowlistId || !capId) throw new Error("Allowlist not found in transaction results");
+    return { allowlistId, capId };
+  } catch (error) {
+    console.error("Allowlist creation error:", error);
+    throw new Error(`Allowlist creation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Current members of an on-chain allowlist
+ */
+export async function getAllowlistMembers(client: SuiClient, allowlistId: string): Promise<string[]> {
+  const { data } = await client.getObject({ id: allowlistId, options: { showContent: true } });
+  if (data?.content?.dataType !== "moveObject") {
+    throw new Error(`Allowlist ${allowlistId} not found`);
+  }
+
+  const { list } = data.content.fields as { list?: string[] };
+  return (list ?? []).map((address) => normalizeSuiAddress(address));
+}
+
+/**
+ * Find the Cap for an allowlist among an account's objects
+ *
+ * @returns Cap object ID, or null if the account cannot manage the allowlist
+ */
+export async function findAllowlistCap(
+  client: SuiClient,
+  owner: string,
+  allowlistId: string,
+  packageId: string = getNetworkConfig().seal.packageId
+): Promise<string | null> {
+  const target = normalizeSuiAddress(allowlistId);
+  let cursor: string | null | undefined;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: `${packageId}::allowlist::Cap` },
+      options: { showContent: true },
+      cursor,
+    });
+
+    for (const { data } of page.data) {
+      if (data?.content?.dataType !== "moveObject") continue;
+      const { allowlist_id } = data.content.fields as { allowlist_id?: string };
+      if (allowlist_id && normalizeSuiAddress(allowlist_id) === target) return data.objectId;
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return null;
+}
+
+/**
+ * Add and remove grantees in a single transaction
+ */
+export async function updateAllowlist(
+  client: SuiClient,
+  signAndExecute: SignAndExecute,
+  params: { allowlistId: string; capId: string; add?: string[]; remove?: string[] },
+  packageId: string = getNetworkConfig().seal.packageId
+): Promise<string> {
+  const { allowlistId, capId, add = [], remove = [] } = params;
+
+  try {
+    const tx = new Transaction();
+    for (const account of remove) {
+      tx.moveCall({
+        target: `${packageId}::allowlist::remove`,
+        arguments: [tx.object(allowlistId), tx.object(capId), tx.pure.address(account)],
+      });
+    }
+    for (const account of add) {
+      tx.moveCall({
+        target: `${packageId}::allowlist::add`,
+        arguments: [tx.object(allowlistId), tx.object(capId), tx.pure.address(account)],
+      });
+    }
+
+    const { digest } = await executeTransaction(client, signAndExecute, tx);
+    return digest;
+  } catch (error) {
+    console.error("Allowlist update error:", error);
+    throw new Error(`Allowlist update failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Transaction kind bytes calling the policy's `seal_approve`, as sent to key servers
+ *
+ * @param keyId - Seal identity (hex), e.g. `EncryptedObject.parse(data).id`
+ */
+export async function buildApprovalTransaction(
+  client: SuiClient,
+  params: { keyId: string; packageId?: string; policy: SealPolicy }
+): Promise<Uint8Array> {
+  const { keyId, policy, packageId = getNetworkConfig().seal.packageId } = params;
+  if (!packageId) throw new Error("VITE_SEAL_PACKAGE_ID is not set");
+
+  const id = fromHex(keyId);
+  const tx = new Transaction();
+
+  switch (policy.type) {
+    case "userOwned": {
+      const owner = fromHex(normalizeSuiAddress(policy.owner));
+      if (!owner.every((byte, i) => id[i] === byte)) {
+        throw new Error("Key ID is not bound to the owner; this artifact was encrypted without an approval policy");
+      }
+      tx.moveCall({
+        target: `${packageId}::owner::seal_approve`,
+        arguments: [tx.pure.vector("u8", id)],
+      });
+      break;
+    }
+    case "allowlist":
+      if (!policy.allowlistId) throw new Error("Certificate has no allowlist object ID");
+      tx.moveCall({
+        target: `${packageId}::allowlist::seal_approve`,
+        arguments: [tx.pure.vector("u8", id), tx.object(policy.allowlistId)],
+      });
+      break;
+    case "timelock":
+      tx.moveCall({
+        target: `${packageId}::timelock::seal_approve`,
+        arguments: [tx.pure.vector("u8", id), tx.object.clock()],
+      });
+      break;
+    default:
+      throw new Error(`Unsupported access policy: ${(policy as { type: string }).type}`);
+  }
+
+  return tx.build({ client, onlyTransactionKind: true });
+}
+
+/**
+ * Explain a failed `seal_approve` dry run, e.g. "Not on allowlist"
+ */
+export function describeApprovalFailure(error: string): string {
+  const abort = error.match(/name: Identifier\("(\w+)"\).*?\},\s*(\d+)\)/);
+  if (abort) {
+    const [, module, code] = abort;
+    return APPROVAL_ERRORS[module]?.[Number(code)] ?? `Policy ${module} rejected the request (abort code ${code})`;
+  }
+  if (/not ?found|does not exist|deleted/i.test(error)) return "Policy object not found";
+  return error;
+}
+
+/**
+ * Dry-run an approval transaction as the requester before asking key servers
+ * Throws with a readable reason when the policy would deny access
+ */
+export async function checkApproval(client: SuiClient, sender: string, txBytes: Uint8Array): Promise<void> {
+  const { effects, error } = await client.devInspectTransactionBlock({
+    sender,
+    transactionBlock: txBytes,
+  });
+
+  const failure = error ?? (effects.status.status === "failure" ? effects.status.error : undefined);
+  if (failure) throw new Error(describeApprovalFailure(failure));
+}
+
+/**
+ * Readable message for errors returned by Seal key servers
+ */
+export function describeSealError(error: unknown): string {
+  if (error instanceof NoAccessError) return "Access denied by the key servers' policy check";
+  if (error instanceof ExpiredSessionKeyError) return "Session key expired; sign again to decrypt";
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Whether an account may request decryption keys for a certificate
+ * (owner-only artifacts: the owner; allowlist artifacts: current members;
+ * time-locked artifacts: anyone once the embargo has passed)
+ *
+ * @param members - On-chain allowlist members, when known; falls back to the upload-time snapshot
+ */
+export function canDecryptCertificate(
+  certificate: OpenTruthCertificate,
+  address: string | undefined,
+  members?: string[]
+): boolean {
+  if (!certificate.encryption?.enabled || !address) return false;
+
+  const account = normalizeSuiAddress(address);
+  const policy = certificate.encryption.policy;
+  if (policy?.type === "timelock") {
+    const unlockAt = getCertificateUnlockTime(certificate.encryption);
+    return unlockAt !== undefined && Date.now() >= unlockAt;
+  }
+  if (policy?.type !== "allowlist") {
+    return normalizeSuiAddress(policy?.owner ?? certificate.author.suiAddress) === account;
+  }
+
+  return (members ?? policy.allowlist ?? []).some((m) => normalizeSuiAddress(m) === account);
+}
@@ -0,0 +1,193 @@
+/**
+ * Incremental SHA-256 (FIPS 180-4)
+ *
+ * Web Crypto can only digest a whole buffer at once, which does not work for
+ * multi-GB files. This hasher takes data in pieces, so files can be hashed
+ * slice by slice with constant memory. Digests are identical to
+ * `crypto.subtle.digest('SHA-256', ...)`.
+ */
+
+const K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BLOCK_BYTES = 64;
+
+export class Sha256 {
+  private state = new Int32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private w = new Int32Array(64);
+  private buffer = new Uint8Array(BLOCK_BYTES);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+  private finished = false;
+
+  update(data: Uint8Array): this {
+    if (this.finished) throw new Error('SHA-256 digest already computed');
+
+    let offset = 0;
+    this.bytesHashed += data.length;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(BLOCK_BYTES - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength < BLOCK_BYTES) return this;
+      this.compress(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + BLOCK_BYTES <= data.length; offset += BLOCK_BYTES) {
+      this.compress(data, offset);
+    }
+
+    this.buffer.set(data.subarray(offset), 0);
+    this.bufferLength = data.length - offset;
+    return this;
+  }
+
+  digest(): Uint8Array {
+    if (this.finished) throw new Error('SHA-256 digest already computed');
+
+    // Padding: 0x80, zeros, then the message length in bits (big-endian u64)
+    const bitLength = this.bytesHashed * 8;
+    const padLength = this.bufferLength < 56 ? 64 - this.bufferLength : 128 - this.bufferLength;
+    const padding = new Uint8Array(padLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padLength - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padLength - 4, bitLength >>> 0);
+
+    this.update(padding);
+    this.finished = true;
+
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    this.state.forEach((word, i) => outView.setUint32(i * 4, word));
+    return out;
+  }
+
+  private compress(data: Uint8Array, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const s = this.state;
+    let a = s[0], b = s[1], c = s[2], d = s[3], e = s[4], f = s[5], g = s[6], h = s[7];
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    s[0] = (s[0] + a) | 0;
+    s[1] = (s[1] + b) | 0;
+    s[2] = (s[2] + c) | 0;
+    s[3] = (s[3] + d) | 0;
+    s[4] = (s[4] + e) | 0;
+    s[5] = (s[5] + f) | 0;
+    s[6] = (s[6] + g) | 0;
+    s[7] = (s[7] + h) | 0;
+  }
+}
+
+/**
+ * Bytes read per slice when streaming a file
+ */
+export const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Lowercase hex of a digest
+ */
+export function toHexDigest(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a Blob/File read slice by slice
+ * Blobs that fit in one slice go through Web Crypto, which is faster
+ *
+ * @param onProgress - Called with the number of bytes hashed so far
+ * @returns Hex digest (no prefix)
+ */
+export async function digestBlob(
+  blob: Blob,
+  onProgress?: (bytesHashed: number) => void,
+  chunkBytes: number = HASH_CHUNK_BYTES
+): Promise<string> {
+  if (blob.size <= chunkBytes) {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    onProgress?.(blob.size);
+    return toHexDigest(new Uint8Array(digest));
+  }
+
+  const hasher = new Sha256();
+  for (let offset = 0; offset < blob.size; offset += chunkBytes) {
+    const slice = await blob.slice(offset, offset + chunkBytes).arrayBuffer();
+    hasher.update(new Uint8Array(slice));
+    onProgress?.(Math.min(offset + chunkBytes, blob.size));
+  }
+  return toHexDigest(hasher.digest());
+}
+
+/**
+ * SHA-256 of a Blob/File plus the digest of every `chunkSize`-byte chunk,
+ * computed in a single read (the last chunk may be shorter)
+ *
+ * @returns Hex digests (no prefix)
+ */
+export async function digestBlobChunks(
+  blob: Blob,
+  chunkSize: number,
+  onProgress?: (bytesHashed: number) => void
+): Promise<{ hash: string; chunkHashes: string[] }> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) throw new Error(`Invalid chunk size: ${chunkSize}`);
+
+  // Read whole chunks per slice so no chunk spans two reads
+  const readBytes = chunkSize * Math.max(1, Math.floor(HASH_CHUNK_BYTES / chunkSize));
+  const hasher = new Sha256();
+  const chunkHashes: string[] = [];
+
+  for (let offset = 0; offset < blob.size; offset += readBytes) {
+    const slice = new Uint8Array(await blob.slice(offset, offset + readBytes).arrayBuffer());
+    hasher.update(slice);
+    for (let start = 0; start < slice.length; start += chunkSize) {
+      const digest = await crypto.subtle.digest('SHA-256', slice.subarray(start, start + chunkSize));
+      chunkHashes.push(toHexDigest(new Uint8Array(digest)));
+    }
+    onProgress?.(Math.min(offset + readBytes, blob.size));
+  }
+
+  return { hash: toHexDigest(hasher.digest()), chunkHashes };
+}
@@ -1,4 +1,18 @@
-import type { OpenTruthCertificate } from "../types";
+import type { OpenTruthCertificate, TrainingCheckpoint } from "../types";
+
+/**
+ * How long a Walrus blob is stored for
+ */
+export interface BlobLifetime {
+  endEpoch: number;
+  expiresAt: number; // Estimated from the network's epoch duration
+}
+
+export interface StorageLifetime {
+  certificate?: BlobLifetime; // The certificate JSON blob (`id`)
+  file?: BlobLifetime; // The stored artifact (`storage.walrusBlobId`)
+  renewedAt?: number;
+}
 
 export interface StoredCertificate {
   id: string;
@@ -6,6 +20,9 @@ export interface StoredCertificate {
   savedAt: number;
   tags?: string[];
   notes?: string;
+  revocationBlobId?: string; // Set after the author revokes this certificate
+  storageLifetime?: StorageLifetime; // Unknown for certificates saved before lifetimes were tracked
+  checkpoint?: TrainingCheckpoint; // Plaintext record of a checkpoint certificate, for the training timeline
 }
 
 const STORAGE_KEY = "opentruth_certificates_v1";
@@ -34,7 +51,7 @@ export function getStorageInfo(): { used: number; quota: number; percentage: num
 export function saveCertificate(
   blobId: string,
   certificate: OpenTruthCertificate,
-  metadata?: { tags?: string[]; notes?: string }
+  metadata?: { tags?: string[]; notes?: string; storageLifetime?: StorageLifetime; checkpoint?: TrainingCheckpoint }
 ): boolean {
   try {
     const stored: StoredCertificate[] = getAllCertificates();
@@ -57,6 +74,8 @@ export function saveCertificate(
       savedAt: Date.now(),
       tags: metadata?.tags || [],
       notes: metadata?.notes,
+      storageLifetime: metadata?.storageLifetime,
+      checkpoint: metadata?.checkpoint,
     };
     
     stored.push(newEntry);
@@ -109,7 +128,9 @@ export function searchCertificates(
     const q = query.toLowerCase();
     certificates = certificates.filter(
       (c) =>
+        c.id.toLowerCase().includes(q) ||
         c.certificate.artifact.filename?.toLowerCase().includes(q) ||
+        c.certificate.model?.name?.toLowerCase().includes(q) ||
         c.tags?.some((t) => t.toLowerCase().includes(q)) ||
         c.notes?.toLowerCase().includes(q)
     );
@@ -146,6 +167,45 @@ export function searchCertificates(
   return certificates.sort((a, b) => b.savedAt - a.savedAt);
 }
 
+/**
+ * Update tags, notes, revocation or storage lifetime of a stored certificate
+ */
+export function updateCertificateMetadata(
+  blobId: string,
+  metadata: { tags?: string[]; notes?: string; revocationBlobId?: string; storageLifetime?: StorageLifetime }
+): boolean {
+  try {
+    const stored = getAllCertificates();
+    const entry = stored.find((s) => s.id === blobId);
+    if (!entry) {
+      console.warn("Certificate not found in storage:", blobId);
+      return false;
+    }
+
+    if (metadata.tags !== undefined) entry.tags = metadata.tags;
+    if (metadata.notes !== undefined) entry.notes = metadata.notes || undefined;
+    if (metadata.revocationBlobId !== undefined) entry.revocationBlobId = metadata.revocationBlobId;
+    if (metadata.storageLifetime !== undefined) entry.storageLifetime = metadata.storageLifetime;
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch (error) {
+    console.error("Failed to update certificate:", error);
+    return false;
+  }
+}
+
+/**
+ * Get all distinct tags used across stored certificates
+ */
+export function getAllTags(): string[] {
+  const tags = new Set<string>();
+  for (const c of getAllCertificates()) {
+    c.tags?.forEach((t) => tags.add(t));
+  }
+  return Array.from(tags).sort();
+}
+
 /**
  * Delete certificate
  */
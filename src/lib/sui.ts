@@ -1,67 +1,190 @@
 import { useSignPersonalMessage } from "@mysten/dapp-kit";
-import { verifyPersonalMessage } from "@mysten/sui.js/verify";
+import { SuiClient } from "@mysten/sui/client";
+import { parseSerializedSignature, type PublicKey, type SignatureScheme } from "@mysten/sui/cryptography";
+import { MultiSigPublicKey } from "@mysten/sui/multisig";
+import { publicKeyFromRawBytes, verifyPersonalMessageSignature } from "@mysten/sui/verify";
 import type { OpenTruthCertificate } from "../types";
+import { canonicalize } from "./canonical-json";
+import { getNetworkConfig } from "../config/networks";
+
+type CertificateSignatureScheme = OpenTruthCertificate["proofs"]["signature"]["scheme"];
+
+type SignableCertificate = Omit<OpenTruthCertificate, "proofs" | "storage"> &
+  Partial<Pick<OpenTruthCertificate, "proofs" | "storage">>;
+
+/**
+ * Certificate versions signed over the RFC 8785 canonical form
+ * Version 1.0 certificates were signed with the legacy serializer below
+ */
+const CANONICAL_SIGNATURE_VERSIONS: ReadonlyArray<OpenTruthCertificate["version"]> = ["1.1"];
+
+/**
+ * Whether a certificate was signed with the legacy (pre-1.1) serialization,
+ * which does not cover nested fields such as artifact.hash
+ */
+export function isLegacySignature(cert: Pick<OpenTruthCertificate, "version">): boolean {
+  return !CANONICAL_SIGNATURE_VERSIONS.includes(cert.version);
+}
 
 /**
  * Serialize certificate for signing (deterministic)
  */
-export function serializeForSigning(cert: any): string {
+export function serializeForSigning(cert: SignableCertificate): string {
   // Remove proofs and storage before signing (they're added after)
-  const { proofs, storage, ...certToSign } = cert;
-  
-  // Sort keys for deterministic JSON
-  return JSON.stringify(certToSign, Object.keys(certToSign).sort());
+  const certToSign: Record<string, unknown> = { ...cert };
+  delete certToSign.proofs;
+  delete certToSign.storage;
+
+  if (isLegacySignature(cert)) {
+    // Kept only to verify v1.0 certificates: the replacer array also filters
+    // nested keys, so most nested fields are dropped from the message
+    return JSON.stringify(certToSign, Object.keys(certToSign).sort());
+  }
+
+  return canonicalize(certToSign);
 }
 
 /**
- * Sign certificate with Sui wallet
+ * Sui signature schemes as recorded in `proofs.signature.scheme`
  */
-export async function signCertificate(
-  certificate: any,
+const SCHEME_NAMES: Record<SignatureScheme, CertificateSignatureScheme> = {
+  ED25519: "ED25519",
+  Secp256k1: "SECP256K1",
+  Secp256r1: "SECP256R1",
+  MultiSig: "MULTISIG",
+  ZkLogin: "ZKLOGIN",
+  Passkey: "PASSKEY",
+};
+
+/**
+ * Placeholder written by releases that did not record the signer key
+ */
+const MISSING_PUBLIC_KEY = "0x";
+
+/**
+ * Recover the signer's public key and scheme from a serialized Sui signature
+ * Works for single-key, zkLogin, passkey and multisig signatures
+ */
+export function getSignerFromSignature(signature: string): {
+  scheme: CertificateSignatureScheme;
+  publicKey: PublicKey;
+} {
+  const parsed = parseSerializedSignature(signature);
+  const publicKey = parsed.signatureScheme === "MultiSig"
+    ? new MultiSigPublicKey(parsed.multisig.multisig_pk)
+    : publicKeyFromRawBytes(parsed.signatureScheme, parsed.publicKey);
+
+  return { scheme: SCHEME_NAMES[parsed.signatureScheme], publicKey };
+}
+
+/**
+ * Sign a message with the wallet and check the expected account signed it
+ */
+export async function signMessageAs(
+  message: string,
+  suiAddress: string,
   signMessage: ReturnType<typeof useSignPersonalMessage>["mutateAsync"]
-): Promise<{ signature: string; publicKey: string }> {
-  const message = serializeForSigning(certificate);
+): Promise<OpenTruthCertificate["proofs"]["signature"]> {
   const encoder = new TextEncoder();
   const messageBytes = encoder.encode(message);
   
   // Sign with wallet
   const { signature } = await signMessage({ message: messageBytes });
   
-  // Note: Public key should come from the account object
-  // For now, we'll extract it from the signature response if available
+  // The serialized signature carries the scheme flag and signer key
+  const signer = getSignerFromSignature(signature);
+  if (signer.publicKey.toSuiAddress() !== suiAddress) {
+    throw new Error("Wallet signed with a different account than the certificate author");
+  }
+
   return {
+    scheme: signer.scheme,
     signature,
-    publicKey: "0x", // Will be filled by caller with account.publicKey
+    publicKey: signer.publicKey.toSuiPublicKey(),
   };
 }
 
 /**
- * Verify certificate signature using Sui SDK
+ * zkLogin signatures are checked by a full node; without a client the SDK
+ * would ask mainnet, whatever network the certificate was signed on
  */
-export async function verifyCertificateSignature(
-  certificate: OpenTruthCertificate,
-  signature: string,
-  _publicKey: string
+function verifyPersonalMessage(message: Uint8Array, signature: string) {
+  return verifyPersonalMessageSignature(message, signature, {
+    client: new SuiClient({ url: getNetworkConfig().suiRpcUrl }),
+  });
+}
+
+/**
+ * Verify a personal-message signature made by `suiAddress`
+ * Also checks that the recorded public key and scheme are the ones that signed
+ */
+export async function verifySignedMessage(
+  message: string,
+  proof: OpenTruthCertificate["proofs"]["signature"],
+  suiAddress: string
 ): Promise<boolean> {
   try {
-    // Remove proofs and storage before verifying (same as signing)
-    const { proofs, storage, ...certToVerify } = certificate;
-    const message = serializeForSigning(certToVerify);
     const encoder = new TextEncoder();
-    const messageBytes = encoder.encode(message);
-    
-    // Verify using Sui's verify function
-    const isValid = await verifyPersonalMessage(messageBytes, signature);
-    
-    // Check that the signature address matches the certificate author
-    const signatureAddress = isValid.toSuiAddress();
-    return signatureAddress === certificate.author.suiAddress;
+    const recoveredKey = await verifyPersonalMessage(encoder.encode(message), proof.signature);
+    if (recoveredKey.toSuiAddress() !== suiAddress) return false;
+
+    const { scheme } = getSignerFromSignature(proof.signature);
+    if (scheme !== proof.scheme) {
+      console.warn("Signature scheme mismatch:", scheme, proof.scheme);
+      return false;
+    }
+    if (proof.publicKey !== recoveredKey.toSuiPublicKey()) {
+      console.warn("Embedded public key does not match the signing key");
+      return false;
+    }
+
+    return true;
   } catch (error) {
     console.error("Signature verification failed:", error);
     return false;
   }
 }
 
+/**
+ * Sign certificate with Sui wallet
+ */
+export async function signCertificate(
+  certificate: SignableCertificate,
+  signMessage: ReturnType<typeof useSignPersonalMessage>["mutateAsync"]
+): Promise<{ signature: string; publicKey: string; scheme: CertificateSignatureScheme }> {
+  return signMessageAs(serializeForSigning(certificate), certificate.author.suiAddress, signMessage);
+}
+
+/**
+ * Verify certificate signature using Sui SDK
+ * Also checks that the embedded public key and scheme are the ones that signed
+ */
+export async function verifyCertificateSignature(
+  certificate: OpenTruthCertificate,
+  signature: string,
+  publicKey: string
+): Promise<boolean> {
+  // serializeForSigning drops proofs and storage (same as signing)
+  const message = serializeForSigning(certificate);
+
+  // v1.0 certificates carry a placeholder key, nothing to cross-check
+  if (publicKey === MISSING_PUBLIC_KEY && isLegacySignature(certificate)) {
+    try {
+      const recoveredKey = await verifyPersonalMessage(new TextEncoder().encode(message), signature);
+      return recoveredKey.toSuiAddress() === certificate.author.suiAddress;
+    } catch (error) {
+      console.error("Signature verification failed:", error);
+      return false;
+    }
+  }
+
+  return verifySignedMessage(
+    message,
+    { scheme: certificate.proofs.signature.scheme, signature, publicKey },
+    certificate.author.suiAddress
+  );
+}
+
 /**
  * Format Sui address for display (0x1234...cdef)
  */
@@ -3,53 +3,16 @@
  * @module training-seal
  */
 
-import { SealClient, EncryptedObject, SessionKey, DemType } from '@mysten/seal';
-import { bcs } from '@mysten/sui/bcs';
+import { EncryptedObject, SessionKey, DemType } from '@mysten/seal';
 import { SuiClient } from '@mysten/sui/client';
-import type { TrainingCheckpoint } from '../types';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { OpenTruthCertificate, TrainingCheckpoint } from '../types';
 import { hashString } from './crypto';
-
-// ============================================================================
-// CONFIGURATION - FILL WITH REAL VALUES
-// ============================================================================
-
-/**
- * Seal Package ID from Mysten Docs
- * !!! REPLACE THIS with actual published package ID !!!
- * https://docs.mystenlabs.com/seal
- */
-const SEAL_PACKAGE_ID = '0x927a54e9ae803f82ebf480136a9bcff45101ccbe28b13f433c89f5181069d682';
-
-/**
- * Key Server Object IDs - MUST BE CONFIGURED
- * Get these from Mysten Seal docs. Need minimum 2 for threshold=2.
- */
-const TESTNET_KEY_SERVER_IDS: string[] = [
-  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75', // mysten-testnet-1
-  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8', // mysten-testnet-2
-];
-
-const DEFAULT_THRESHOLD = 2;
-
-// ============================================================================
-// KEY SERVER MANAGEMENT
-// ============================================================================
-
-/**
- * Get key server configurations for SealClient initialization
- */
-export function getKeyServerConfigs(): Array<{ objectId: string; weight: number }> {
-  if (TESTNET_KEY_SERVER_IDS.length < DEFAULT_THRESHOLD) {
-    throw new Error(
-      `⛔ Seal Setup Error: Configure at least ${DEFAULT_THRESHOLD} key server object IDs ` +
-      `in TESTNET_KEY_SERVER_IDS array. Get these from https://docs.mystenlabs.com/seal`
-    );
-  }
-  return TESTNET_KEY_SERVER_IDS.map((objectId: string) => ({
-    objectId,
-    weight: 1,
-  }));
-}
+import { getAllCertificates, type StoredCertificate } from './storage';
+import { readFromWalrus } from './walrus';
+import { getNetworkConfig } from '../config/networks';
+import { createSealClient } from './seal-encryption';
+import { buildApprovalTransaction, checkApproval, createPolicyKeyId, describeSealError } from './seal-policy';
 
 // ============================================================================
 // CHECKPOINT ENCRYPTION
@@ -73,25 +36,24 @@ export interface CheckpointEncryptionResult {
  */
 export async function encryptCheckpoint(
   checkpoint: TrainingCheckpoint,
-  _ownerAddress: string,
+  ownerAddress: string,
   client: SuiClient
 ): Promise<CheckpointEncryptionResult> {
   try {
-    const keyId = `${checkpoint.datasetMerkleRoot}::${checkpoint.epoch}::${Date.now()}`;
-    const checkpointBytes = new TextEncoder().encode(JSON.stringify(checkpoint));
+    // Owner-bound key ID, approved by owner::seal_approve
+    const keyId = createPolicyKeyId(ownerAddress);
+    const checkpointBytes = new TextEncoder().encode(serializeCheckpoint(checkpoint));
+
+    const { packageId, threshold } = getNetworkConfig().seal;
 
     // Initialize SealClient
-    const sealClient = new SealClient({
-      suiClient: client as any, // Type assertion for compatibility
-      serverConfigs: getKeyServerConfigs(),
-      verifyKeyServers: true,
-    });
+    const sealClient = createSealClient(client);
 
     // Encrypt using SealClient
     const { encryptedObject } = await sealClient.encrypt({
       demType: DemType.AesGcm256,
-      threshold: DEFAULT_THRESHOLD,
-      packageId: SEAL_PACKAGE_ID,
+      threshold,
+      packageId,
       id: keyId,
       data: checkpointBytes,
       aad: new Uint8Array(),
@@ -102,7 +64,7 @@ export async function encryptCheckpoint(
       metadata: {
         enabled: true,
         keyId,
-        threshold: DEFAULT_THRESHOLD,
+        threshold,
       },
     };
   } catch (error) {
@@ -132,19 +94,23 @@ export async function decryptCheckpoint(
   const { encryptedData, keyId, ownerAddress, signMessage, client } = params;
 
   try {
-   EncryptedObject.parse(encryptedData);
+    const encryptedObject = EncryptedObject.parse(encryptedData);
+    const packageId = normalizeSuiAddress(encryptedObject.packageId);
 
-    // Initialize SealClient
-    const sealClient = new SealClient({
-      suiClient: client as any,
-      serverConfigs: getKeyServerConfigs(),
-      verifyKeyServers: true,
+    const txBytes = await buildApprovalTransaction(client, {
+      keyId,
+      packageId,
+      policy: { type: 'userOwned', owner: ownerAddress },
     });
+    await checkApproval(client, ownerAddress, txBytes);
+
+    // Initialize SealClient
+    const sealClient = createSealClient(client);
 
     // Create session key using static factory method
     const sessionKey = await SessionKey.create({
       address: ownerAddress,
-      packageId: SEAL_PACKAGE_ID,
+      packageId,
       ttlMin: 30,
       suiClient: client as any,
     });
@@ -152,14 +118,12 @@ export async function decryptCheckpoint(
     const { signature } = await signMessage(sessionKey.getPersonalMessage());
     await sessionKey.setPersonalMessageSignature(signature);
 
-    const txBytes = await createAuthTx(ownerAddress);
-
     // Fetch decryption keys
     await sealClient.fetchKeys({
       ids: [keyId],
       txBytes,
       sessionKey,
-      threshold: DEFAULT_THRESHOLD,
+      threshold: encryptedObject.threshold,
     });
 
     // Decrypt
@@ -171,8 +135,7 @@ export async function decryptCheckpoint(
 
     return JSON.parse(new TextDecoder().decode(decrypted));
   } catch (error) {
-    const msg = error instanceof Error ? error.message : 'Unknown decryption error';
-    throw new Error(`Checkpoint decryption failed: ${msg}`);
+    throw new Error(`Checkpoint decryption failed: ${describeSealError(error)}`);
   }
 }
 
@@ -216,22 +179,206 @@ export async function validateCheckpointIntegrity(
 }
 
 // ============================================================================
-// AUTHORIZATION TRANSACTION
+// CHECKPOINT RECORDS
 // ============================================================================
 
-async function createAuthTx(sender: string): Promise<Uint8Array> {
-  const txData = {
-    V1: {
-      kind: { ProgrammableTransaction: { inputs: [], commands: [] } },
-      sender,
-      gasData: {
-        payment: [],
-        owner: sender,
-        price: '1000',
-        budget: '10000000',
-      },
-      expiration: { None: null },
-    },
+/**
+ * Library tag for checkpoint certificates
+ */
+export const CHECKPOINT_TAG = 'checkpoint';
+
+/**
+ * Checkpoint record as stored on Walrus and certified (the plaintext that
+ * encryptCheckpoint encrypts)
+ */
+export function serializeCheckpoint(checkpoint: TrainingCheckpoint): string {
+  return JSON.stringify(checkpoint);
+}
+
+/**
+ * Checkpoint record as a file, for generateCertificate
+ */
+export function createCheckpointFile(checkpoint: TrainingCheckpoint): File {
+  return new File([serializeCheckpoint(checkpoint)], `checkpoint-epoch-${checkpoint.epoch}.json`, {
+    type: 'application/json',
+  });
+}
+
+/**
+ * Checkpoint certificates in the local library, newest first
+ */
+export function getCheckpointCertificates(): StoredCertificate[] {
+  return getAllCertificates()
+    .filter((entry) => entry.tags?.includes(CHECKPOINT_TAG) && entry.certificate.model?.checkpointHash)
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export interface CheckpointRecordCheck {
+  checkpoint: TrainingCheckpoint;
+  integrityValid: boolean; // checkpointHash matches the record and the certificate
+  datasetValid: boolean; // The record names the certificate's dataset Merkle root
+}
+
+/**
+ * Fetch a checkpoint record from Walrus, decrypting it if needed (owner only),
+ * and check it against its certificate
+ */
+export async function loadCheckpointRecord(
+  certificate: OpenTruthCertificate,
+  options: {
+    client: SuiClient;
+    ownerAddress?: string;
+    signMessage?: (message: Uint8Array) => Promise<{ signature: string }>;
+  }
+): Promise<CheckpointRecordCheck> {
+  const { model, encryption, storage } = certificate;
+  if (!model?.checkpointHash) throw new Error('Not a checkpoint certificate');
+
+  const blob = await readFromWalrus(encryption?.encryptedBlobId ?? storage.walrusBlobId);
+  let checkpoint: TrainingCheckpoint;
+  if (encryption?.enabled) {
+    if (!encryption.keyId || !options.ownerAddress || !options.signMessage) {
+      throw new Error('Connect the owner wallet to decrypt this checkpoint');
+    }
+    checkpoint = await decryptCheckpoint({
+      encryptedData: new Uint8Array(await blob.arrayBuffer()),
+      keyId: encryption.keyId,
+      ownerAddress: options.ownerAddress,
+      signMessage: options.signMessage,
+      client: options.client,
+    });
+  } else {
+    try {
+      checkpoint = JSON.parse(await blob.text());
+    } catch {
+      throw new Error('Checkpoint record is not valid JSON');
+    }
+  }
+
+  return {
+    checkpoint,
+    integrityValid: checkpoint.checkpointHash === model.checkpointHash && await validateCheckpointIntegrity(checkpoint),
+    datasetValid: !!model.datasetMerkleRoot && verifyCheckpointDataset(checkpoint, model.datasetMerkleRoot),
   };
-  return bcs.TransactionData.serialize(txData).toBytes();
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// TRAINING RUNS
+// ============================================================================
+
+export interface RunCheckpoint {
+  certificateBlobId: string;
+  certificate: OpenTruthCertificate;
+  checkpoint?: TrainingCheckpoint; // Only when this library recorded it
+}
+
+export interface RunChainCheck {
+  intact: boolean;
+  brokenAt?: number; // Index in `checkpoints` of the first checkpoint that breaks the chain
+  reason?: string;
+}
+
+/**
+ * Checkpoints sharing a run ID, in hash-chain order
+ */
+export interface TrainingRun {
+  runId: string;
+  modelName: string;
+  datasetMerkleRoot?: string;
+  checkpoints: RunCheckpoint[];
+  chain: RunChainCheck;
+}
+
+/**
+ * New random run ID (hex)
+ */
+export function createRunId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Order a run's checkpoints by following previousCheckpointHash from the
+ * first checkpoint, and check that they form a single unbroken chain
+ * Only signed certificate fields are used, so anyone can check a run;
+ * local records add epoch ordering checks
+ */
+export function orderRunChain(entries: RunCheckpoint[]): { checkpoints: RunCheckpoint[]; chain: RunChainCheck } {
+  const hashOf = (c: RunCheckpoint) => c.certificate.model?.checkpointHash ?? '';
+  const previousOf = (c: RunCheckpoint) => c.certificate.model?.previousCheckpointHash;
+  const byTime = [...entries].sort((a, b) => a.certificate.timestamp - b.certificate.timestamp);
+
+  const successors = new Map<string, RunCheckpoint[]>();
+  for (const entry of byTime) {
+    const previous = previousOf(entry);
+    if (previous) successors.set(previous, [...(successors.get(previous) ?? []), entry]);
+  }
+
+  // Follow the chain from the first checkpoint; anything left over is appended by time
+  const roots = byTime.filter((c) => !previousOf(c));
+  const ordered: RunCheckpoint[] = [];
+  const seen = new Set<RunCheckpoint>();
+  let next: RunCheckpoint | undefined = roots[0] ?? byTime[0];
+  while (next && !seen.has(next)) {
+    ordered.push(next);
+    seen.add(next);
+    next = successors.get(hashOf(next))?.[0];
+  }
+  const checkpoints = [...ordered, ...byTime.filter((c) => !seen.has(c))];
+
+  const broken = (index: number, reason: string) => ({ checkpoints, chain: { intact: false, brokenAt: index, reason } });
+
+  if (roots.length !== 1) {
+    return broken(0, roots.length ? `${roots.length} checkpoints claim to start the run` : 'No first checkpoint');
+  }
+  for (let i = 0; i < checkpoints.length; i++) {
+    const current = checkpoints[i];
+    if ((successors.get(hashOf(current))?.length ?? 0) > 1) {
+      return broken(i + 1, 'The run forks: two checkpoints follow the same predecessor');
+    }
+    if (i === 0) continue;
+
+    const previous = checkpoints[i - 1];
+    if (previousOf(current) !== hashOf(previous)) {
+      return broken(i, 'Predecessor hash does not match the previous checkpoint');
+    }
+    if (current.certificate.timestamp <= previous.certificate.timestamp) {
+      return broken(i, 'Checkpoint is older than its predecessor');
+    }
+    if (current.certificate.model?.datasetMerkleRoot !== previous.certificate.model?.datasetMerkleRoot) {
+      return broken(i, 'Checkpoint was trained on a different dataset');
+    }
+    if (current.checkpoint && previous.checkpoint && current.checkpoint.epoch <= previous.checkpoint.epoch) {
+      return broken(i, 'Epochs do not increase');
+    }
+  }
+
+  return { checkpoints, chain: { intact: true } };
+}
+
+/**
+ * Training runs in the local library, most recently extended first
+ */
+export function getTrainingRuns(): TrainingRun[] {
+  const groups = new Map<string, RunCheckpoint[]>();
+  for (const entry of getCheckpointCertificates()) {
+    const runId = entry.certificate.model?.runId;
+    if (!runId) continue;
+    groups.set(runId, [
+      ...(groups.get(runId) ?? []),
+      { certificateBlobId: entry.id, certificate: entry.certificate, checkpoint: entry.checkpoint },
+    ]);
+  }
+
+  return Array.from(groups, ([runId, entries]) => {
+    const { checkpoints, chain } = orderRunChain(entries);
+    const { model } = checkpoints[0].certificate;
+    return { runId, modelName: model?.name ?? '', datasetMerkleRoot: model?.datasetMerkleRoot, checkpoints, chain };
+  }).sort((a, b) => getRunHead(b).certificate.timestamp - getRunHead(a).certificate.timestamp);
+}
+
+/**
+ * Latest checkpoint of a run, which the next checkpoint links to
+ */
+export function getRunHead(run: TrainingRun): RunCheckpoint {
+  return run.checkpoints[run.checkpoints.length - 1];
+}
@@ -1,18 +1,37 @@
 /// <reference types="vite/client" />
-const WALRUS_PUBLISHER = import.meta.env.VITE_WALRUS_PUBLISHER_URL || "https://publisher.walrus-testnet.walrus.space";
-const WALRUS_AGGREGATOR = import.meta.env.VITE_WALRUS_AGGREGATOR_URL || "https://aggregator.walrus-testnet.walrus.space";
+import { getNetworkConfig, type RetryConfig } from "../config/networks";
 
 export interface WalrusUploadResponse {
   blobId: string;
   uploadedAt: number;
+  endEpoch?: number; // Walrus epoch at which the blob expires
+  expiresAt?: number; // Estimated Unix ms of endEpoch (see estimateExpiry)
 }
 
 /**
- * Parse Walrus response to extract blobId
+ * Fields read from a publisher's `/v1/store` response
  */
-function parseBlobId(result: any): string {
+interface WalrusStoreResponse {
+  newlyCreated?: {
+    blobObject?: {
+      blobId?: string;
+      registeredEpoch?: number;
+      storage?: { endEpoch?: number };
+    };
+  };
+  alreadyCertified?: {
+    blobId?: string;
+    endEpoch?: number;
+  };
+}
+
+/**
+ * Parse Walrus response to extract blobId and storage period
+ */
+function parseStoreResponse(result: WalrusStoreResponse): { blobId: string; endEpoch?: number; currentEpoch?: number } {
   // Handle both newlyCreated and alreadyCertified responses
-  const blobId = result.newlyCreated?.blobObject?.blobId || 
+  const blobObject = result.newlyCreated?.blobObject;
+  const blobId = blobObject?.blobId || 
                  result.alreadyCertified?.blobId;
   
   if (!blobId) {
@@ -20,42 +39,307 @@ function parseBlobId(result: any): string {
     throw new Error("No blobId found in Walrus response");
   }
   
-  return blobId;
+  return {
+    blobId,
+    endEpoch: blobObject?.storage?.endEpoch ?? result.alreadyCertified?.endEpoch,
+    currentEpoch: blobObject?.registeredEpoch, // Only known for newly stored blobs
+  };
+}
+
+/**
+ * Estimate when a blob stored at `storedAt` expires
+ * Without the current epoch (an already certified blob), assume only the
+ * requested epochs remain, so renewal reminders come early rather than late
+ */
+function estimateExpiry(
+  storedAt: number,
+  epochDurationMs: number,
+  stored: { endEpoch?: number; currentEpoch?: number },
+  requestedEpochs: number
+): number {
+  const remaining = stored.endEpoch !== undefined && stored.currentEpoch !== undefined
+    ? stored.endEpoch - stored.currentEpoch
+    : requestedEpochs;
+  return storedAt + remaining * epochDurationMs;
+}
+
+export interface WalrusUploadProgress {
+  loaded: number;
+  total: number;
+  endpoint: string;
+}
+
+export interface WalrusRetryEvent {
+  attempt: number; // The attempt about to start (2 = first retry)
+  maxAttempts: number;
+  endpoint: string; // Endpoint the next attempt will use
+  delayMs: number;
+  error: string; // Why the previous attempt failed
+}
+
+export interface WalrusRequestOptions {
+  signal?: AbortSignal; // Cancels the request, including pending retries
+  retry?: Partial<RetryConfig>; // Defaults come from the network config
+  onRetry?: (event: WalrusRetryEvent) => void;
+}
+
+export interface WalrusUploadOptions extends WalrusRequestOptions {
+  epochs?: number; // Storage duration; the publisher default is one epoch
+  onProgress?: (progress: WalrusUploadProgress) => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Non-2xx response from a publisher or aggregator
+ */
+class WalrusHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, statusText: string, retryAfter?: string | null) {
+    super(`${status} ${statusText}`.trim());
+    this.status = status;
+    const seconds = Number(retryAfter);
+    if (retryAfter && Number.isFinite(seconds)) this.retryAfterMs = seconds * 1000;
+  }
+}
+
+function cancelledError(): DOMException {
+  return new DOMException("Request cancelled", "AbortError");
+}
+
+/**
+ * Network errors, timeouts, 408, 429 and 5xx are worth retrying elsewhere;
+ * other 4xx responses (and cancellation) are final
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DOMException && error.name === "AbortError") return false;
+  if (error instanceof WalrusHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `request` against the endpoints in turn, with exponential backoff
+ * between attempts; attempt n uses endpoints[(n - 1) % endpoints.length]
+ */
+async function withFailover<T>(
+  endpoints: string[],
+  options: WalrusRequestOptions,
+  request: (endpoint: string, timeoutMs: number) => Promise<T>
+): Promise<T> {
+  const { maxAttempts, baseDelayMs, timeoutMs } = { ...getNetworkConfig().walrus.retry, ...options.retry };
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw cancelledError();
+    const endpoint = endpoints[(attempt - 1) % endpoints.length];
+
+    try {
+      return await request(endpoint, timeoutMs);
+    } catch (error) {
+      if (options.signal?.aborted) throw cancelledError();
+      if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+
+      const backoff = baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      const delayMs = Math.min(
+        error instanceof WalrusHttpError && error.retryAfterMs !== undefined ? error.retryAfterMs : backoff,
+        MAX_RETRY_DELAY_MS
+      );
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn(`Walrus request to ${endpoint} failed (attempt ${attempt}/${maxAttempts}): ${message}`);
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts,
+        endpoint: endpoints[attempt % endpoints.length],
+        delayMs,
+        error: message,
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Slowest upload rate assumed when no upload progress can be observed
+ */
+const MIN_UPLOAD_BYTES_PER_SECOND = 64 * 1024;
+
+/**
+ * Abort signal that fires once `touch` has not been called for `idleMs`
+ * Transfers of any size and duration succeed as long as data keeps moving.
+ */
+function createStallTimer(idleMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), idleMs);
+  };
+  touch();
+
+  return {
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    stalled: () => controller.signal.aborted && !signal?.aborted,
+    touch,
+    stop: () => clearTimeout(timer),
+  };
+}
+
+function stalledError(idleMs: number): Error {
+  return new Error(`Timed out: no data for ${idleMs / 1000}s`);
+}
+
+/**
+ * fetch the response and its body, aborting only when no data arrives for
+ * `idleMs` (or the caller's AbortSignal fires)
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  idleMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; body: Blob }> {
+  const stall = createStallTimer(idleMs, signal);
+  try {
+    const response = await fetch(url, { ...init, signal: stall.signal });
+    stall.touch();
+    if (!response.body) return { response, body: await response.blob() };
+
+    const chunks: BlobPart[] = [];
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      stall.touch();
+    }
+    return { response, body: new Blob(chunks, { type: response.headers.get("Content-Type") ?? "" }) };
+  } catch (error) {
+    if (stall.stalled()) throw stalledError(idleMs);
+    throw error;
+  } finally {
+    stall.stop();
+  }
+}
+
+/**
+ * PUT with upload progress (XMLHttpRequest; fetch cannot report upload
+ * progress). Falls back to fetch outside the browser.
+ */
+function putWithProgress(
+  url: string,
+  data: Blob,
+  contentType: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<unknown> {
+  if (typeof XMLHttpRequest === "undefined") {
+    // Upload progress is not observable here, so allow for a slow link
+    const idleMs = timeoutMs + (data.size / MIN_UPLOAD_BYTES_PER_SECOND) * 1000;
+    return fetchWithTimeout(url, { method: "PUT", body: data, headers: { "Content-Type": contentType } }, idleMs, signal)
+      .then(async ({ response, body }) => {
+        if (!response.ok) {
+          throw new WalrusHttpError(response.status, response.statusText, response.headers.get("Retry-After"));
+        }
+        onProgress?.(data.size, data.size);
+        return JSON.parse(await body.text());
+      });
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const stall = createStallTimer(timeoutMs);
+    let stalled = false;
+    const onAbort = () => xhr.abort();
+    stall.signal.addEventListener("abort", () => {
+      stalled = true;
+      xhr.abort();
+    }, { once: true });
+
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", contentType);
+    xhr.upload.onprogress = (event) => {
+      stall.touch();
+      onProgress?.(event.loaded, event.lengthComputable ? event.total : data.size);
+    };
+    xhr.upload.onload = stall.touch; // The publisher may take a while to respond
+    xhr.onprogress = stall.touch;
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new WalrusHttpError(xhr.status, xhr.statusText, xhr.getResponseHeader("Retry-After")));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new Error("Publisher returned invalid JSON"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error"));
+    xhr.onabort = () => reject(stalled ? stalledError(timeoutMs) : cancelledError());
+    xhr.onloadend = () => {
+      stall.stop();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(data);
+  });
 }
 
 /**
  * Upload data to Walrus
+ * Retries transient failures with backoff, moving through the configured
+ * publishers; cancel with `options.signal`
  */
 export async function uploadToWalrus(
   data: Blob | File,
-  options?: { epochs?: number }
+  options: WalrusUploadOptions = {}
 ): Promise<WalrusUploadResponse> {
   try {
     const contentType = data instanceof File ? data.type : "application/octet-stream";
     
-    const url = new URL(`${WALRUS_PUBLISHER}/v1/store`);
-    if (options?.epochs) {
-      url.searchParams.append("epochs", options.epochs.toString());
+    const { name, walrus } = getNetworkConfig();
+    if (walrus.publisherUrls.length === 0) {
+      throw new Error(`No Walrus publisher configured for ${name}: set VITE_WALRUS_PUBLISHER_URL`);
     }
-    
-    const response = await fetch(url.toString(), {
-      method: "PUT",
-      body: data,
-      headers: {
-        "Content-Type": contentType,
-      },
+
+    const stored = await withFailover(walrus.publisherUrls, options, async (publisherUrl, timeoutMs) => {
+      const url = new URL(`${publisherUrl}/v1/store`);
+      if (options.epochs) {
+        url.searchParams.append("epochs", options.epochs.toString());
+      }
+
+      const result = await putWithProgress(url.toString(), data, contentType, timeoutMs, options.signal,
+        (loaded, total) => options.onProgress?.({ loaded, total, endpoint: publisherUrl }));
+      return parseStoreResponse(result as WalrusStoreResponse);
     });
-    
-    if (!response.ok) {
-      throw new Error(`Walrus upload failed: ${response.status} ${response.statusText}`);
-    }
-    
-    const result = await response.json();
-    const blobId = parseBlobId(result);
-    
+
+    const uploadedAt = Date.now();
     return {
-      blobId: `BLOB:${blobId}`,
-      uploadedAt: Date.now(),
+      blobId: `BLOB:${stored.blobId}`,
+      uploadedAt,
+      endEpoch: stored.endEpoch,
+      expiresAt: estimateExpiry(uploadedAt, walrus.epochDurationMs, stored, options.epochs ?? 1),
     };
   } catch (error) {
     console.error("Walrus upload error:", error);
@@ -65,40 +349,108 @@ export async function uploadToWalrus(
 
 /**
  * Retrieve data from Walrus
+ * Transient failures are retried across the configured aggregators
  */
-export async function readFromWalrus(blobId: string): Promise<Blob> {
+export async function readFromWalrus(blobId: string, options: WalrusRequestOptions = {}): Promise<Blob> {
   try {
     const cleanBlobId = blobId.replace(/^BLOB:/, "");
-    const response = await fetch(`${WALRUS_AGGREGATOR}/v1/${cleanBlobId}`);
-    
-    if (response.status === 404) {
-      throw new Error("Certificate not found on Walrus. It may have expired or been deleted.");
+    const { name, walrus: { aggregatorUrls } } = getNetworkConfig();
+    if (aggregatorUrls.length === 0) {
+      throw new Error(`No Walrus aggregator configured for ${name}: set VITE_WALRUS_AGGREGATOR_URL`);
     }
-    
-    if (!response.ok) {
-      throw new Error(`Walrus read failed: ${response.status} ${response.statusText}`);
-    }
-    
-    return await response.blob();
+
+    // The body is read inside the attempt, so a stalled download is retried
+    return await withFailover(aggregatorUrls, options, async (aggregatorUrl, timeoutMs) => {
+      const { response, body } = await fetchWithTimeout(`${aggregatorUrl}/v1/${cleanBlobId}`, {}, timeoutMs, options.signal);
+      if (!response.ok) throw new WalrusHttpError(response.status, response.statusText, response.headers.get("Retry-After"));
+      return body;
+    });
   } catch (error) {
     console.error("Walrus read error:", error);
+    if (error instanceof WalrusHttpError && error.status === 404) {
+      throw new Error("Certificate not found on Walrus. It may have expired or been deleted.");
+    }
+    if (error instanceof WalrusHttpError) {
+      throw new Error(`Walrus read failed: ${error.message}`);
+    }
     throw error;
   }
 }
 
+/**
+ * Check whether a blob is currently readable from any configured aggregator
+ * Never throws: network errors count as unreachable
+ */
+export async function isBlobAvailable(blobId: string): Promise<boolean> {
+  if (!blobId) return false;
+
+  for (const aggregatorUrl of getNetworkConfig().walrus.aggregatorUrls) {
+    try {
+      const url = `${aggregatorUrl}/v1/${blobId.replace(/^BLOB:/, "")}`;
+      const response = await fetch(url, { method: "HEAD" });
+
+      // Some aggregators do not implement HEAD; fall back to a one-byte read
+      if (response.status === 405) {
+        const fallback = await fetch(url, { headers: { Range: "bytes=0-0" } });
+        if (fallback.ok) return true;
+      } else if (response.ok) {
+        return true;
+      }
+    } catch (error) {
+      console.warn(`Walrus availability check failed on ${aggregatorUrl}:`, error);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Store an existing blob for `epochs` more epochs without changing its ID
+ *
+ * Walrus blob IDs are derived from content, so re-uploading the same bytes
+ * extends the blob in place. The bytes are read back from Walrus; pass
+ * `fallback` (e.g. a local copy) for a blob that has already expired.
+ */
+export async function renewBlob(
+  blobId: string,
+  epochs: number,
+  options: WalrusUploadOptions & { fallback?: Blob } = {}
+): Promise<WalrusUploadResponse> {
+  let data: Blob;
+  try {
+    data = await readFromWalrus(blobId, { signal: options.signal, retry: options.retry });
+  } catch (error) {
+    if (!options.fallback) {
+      throw new Error(`Cannot renew ${blobId}: ${error instanceof Error ? error.message : "blob unavailable"}`);
+    }
+    data = options.fallback;
+  }
+
+  const renewed = await uploadToWalrus(data, { ...options, epochs });
+  if (renewed.blobId !== blobId) {
+    throw new Error(`Re-upload produced a different blob ID (${renewed.blobId}), so ${blobId} was not renewed`);
+  }
+  return renewed;
+}
+
+/**
+ * Certificate JSON exactly as stored on Walrus
+ * Re-serializing a certificate reproduces its blob ID (see renewBlob)
+ */
+export function serializeCertificate(certificate: unknown): Blob {
+  return new Blob([JSON.stringify(certificate, null, 2)], {
+    type: "application/json",
+  });
+}
+
 /**
  * Upload certificate JSON to Walrus
  */
 export async function uploadCertificate(
   certificate: any,
-  options?: { epochs?: number }
-): Promise<string> {
-  const blob = new Blob([JSON.stringify(certificate, null, 2)], {
-    type: "application/json",
-  });
-  
-  const { blobId } = await uploadToWalrus(blob, options);
-  return blobId;
+  options?: WalrusUploadOptions
+): Promise<WalrusUploadResponse> {
+  return uploadToWalrus(serializeCertificate(certificate), options);
 }
 
 /**
@@ -120,5 +472,5 @@ export async function getCertificate(blobId: string): Promise<any> {
  */
 export function getWalrusExplorerUrl(blobId: string): string {
   const cleanBlobId = blobId.replace(/^BLOB:/, "");
-  return `https://walruscan.com/object/${cleanBlobId}`;
+  return `${getNetworkConfig().walrus.explorerUrl}/${cleanBlobId}`;
 }
\ No newline at end of file
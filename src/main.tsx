@@ -3,8 +3,8 @@ import ReactDOM from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import { SuiClientProvider, WalletProvider } from "@mysten/dapp-kit";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { getFullnodeUrl } from "@mysten/sui/client";
 import App from "./App.tsx";
+import { NETWORKS, getActiveNetwork, setActiveNetwork } from "./config/networks";
 import "./index.css";
 
 // Create client
@@ -17,8 +17,9 @@ const queryClient = new QueryClient({
 });
 
 const networks = {
-  localnet: { url: getFullnodeUrl("localnet") },
-  mainnet: { url: getFullnodeUrl("mainnet") },
+  localnet: { url: NETWORKS.localnet.suiRpcUrl },
+  testnet: { url: NETWORKS.testnet.suiRpcUrl },
+  mainnet: { url: NETWORKS.mainnet.suiRpcUrl },
 };
 
 // Error Boundary Component
@@ -75,7 +76,11 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <SuiClientProvider networks={networks} defaultNetwork="localnet">
+        <SuiClientProvider
+          networks={networks}
+          defaultNetwork={getActiveNetwork()}
+          onNetworkChange={setActiveNetwork}
+        >
           <WalletProvider autoConnect>
             <BrowserRouter>
               <App />
@@ -0,0 +1,9 @@
+import { CertificateLibrary } from '../components/CertificateLibrary';
+
+export function CertificatesPage() {
+  return (
+    <div className="max-w-4xl mx-auto">
+      <CertificateLibrary />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { useState } from 'react';
+import { TrainingForm } from '../components/TrainingForm';
+import { CheckpointList } from '../components/CheckpointList';
+import { TrainingTimeline } from '../components/TrainingTimeline';
+
+export function TrainingPage() {
+  // Bumped after each recording so the timeline and list re-read the library
+  const [recorded, setRecorded] = useState(0);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <TrainingForm onRecorded={() => setRecorded((n) => n + 1)} />
+      <TrainingTimeline key={recorded} />
+      <CheckpointList key={recorded} />
+    </div>
+  );
+}
@@ -2,11 +2,40 @@
  * TypeScript type definitions for OpenTruth
  */
 
+/**
+ * How a certificate relates to another certificate
+ * - derivedFrom: this artifact was produced from the referenced artifact
+ * - trainedOn:   the model behind this artifact was trained on the referenced dataset/checkpoint
+ * - supersedes:  this certificate replaces the referenced certificate
+ * - editOf:      this artifact is an edited version of the referenced artifact
+ */
+export type CertificateRelation = 'derivedFrom' | 'trainedOn' | 'supersedes' | 'editOf';
+
+/**
+ * Link to another certificate by Walrus blob ID
+ */
+export interface CertificateReference {
+  relation: CertificateRelation;
+  certificateBlobId: string;
+  artifactHash: string; // Expected artifact.hash of the referenced certificate
+}
+
+/**
+ * Hashes of an artifact's fixed-size chunks (see lib/chunks.ts)
+ * Lets a verifier check a byte range or a partial download, and locate which
+ * regions of a modified file changed
+ */
+export interface ChunkManifest {
+  chunkSize: number; // Bytes per chunk; the last chunk may be shorter
+  chunkHashes: string[]; // sha256:... of each chunk, in file order
+  merkleRoot: string; // Root over chunkHashes (lib/merkle.ts spec, chunks as leaves)
+}
+
 /**
  * Main certificate structure for OpenTruth
  */
 export interface OpenTruthCertificate {
-  version: '1.0';
+  version: '1.0' | '1.1'; // 1.1+: signature covers the RFC 8785 canonical form
   type: 'opentruth.certificate';
   timestamp: number;
 
@@ -21,6 +50,7 @@ export interface OpenTruthCertificate {
     size: number; // Size of original file
     mimeType: string;
     filename?: string;
+    chunks?: ChunkManifest; // Optional per-chunk hashes of the original file
   };
 
   model?: {
@@ -29,6 +59,8 @@ export interface OpenTruthCertificate {
     promptHash?: string;
     checkpointHash?: string;
     datasetMerkleRoot?: string;
+    runId?: string; // Training run this checkpoint belongs to
+    previousCheckpointHash?: string; // checkpointHash of the run's previous checkpoint; unset for the first
   };
 
   dataset?: {
@@ -38,11 +70,17 @@ export interface OpenTruthCertificate {
     fileHashes: string[];
   };
 
+  /**
+   * Links to parent certificates (optional)
+   * Edges of the provenance graph; covered by the signature
+   */
+  references?: CertificateReference[];
+
   proofs: {
     signature: {
-      scheme: 'ED25519' | 'SECP256K1';
-      signature: string;
-      publicKey: string;
+      scheme: 'ED25519' | 'SECP256K1' | 'SECP256R1' | 'ZKLOGIN' | 'MULTISIG' | 'PASSKEY';
+      signature: string; // Serialized Sui signature (base64)
+      publicKey: string; // Sui public key: base64(flag || key bytes)
     };
   };
 
@@ -57,10 +95,13 @@ export interface OpenTruthCertificate {
     packageId?: string; // Seal package ID used for encryption
     keyId?: string; // Identity used for encryption
     threshold?: number; // t-out-of-N key server threshold (e.g., 2)
+    ciphertextHash?: string; // SHA-256 of the encrypted blob, so the stored ciphertext can be verified without decrypting
     policy?: {
-      type: 'userOwned' | 'allowlist';
+      type: 'userOwned' | 'allowlist' | 'timelock';
       owner: string; // Sui address that owns the decryption rights
-      allowlist?: string[]; // Additional addresses that can decrypt
+      allowlist?: string[]; // Additional addresses that can decrypt (snapshot at upload)
+      allowlistId?: string; // Sui Allowlist object enforcing access; the on-chain list is authoritative
+      unlockAt?: number; // Timelock: Unix ms after which anyone can decrypt (embedded in the key ID)
     };
   };
 
@@ -68,6 +109,7 @@ export interface OpenTruthCertificate {
     walrusBlobId: string; // Points to either encrypted OR plaintext file
     network: 'testnet' | 'mainnet' | 'localnet';
     uploadedAt: number;
+    endEpoch?: number; // Walrus epoch at which the stored file expires, as of upload (renewals are tracked in the library)
   };
 }
 
@@ -76,6 +118,8 @@ export interface OpenTruthCertificate {
  */
 export interface TrainingCheckpoint {
   epoch: number;
+  runId?: string; // Groups the checkpoints of one training run
+  previousCheckpointHash?: string; // Hash-chains each checkpoint to its predecessor in the run
   accuracy: number;
   loss: number;
   datasetMerkleRoot: string;
@@ -97,6 +141,8 @@ export interface TrainingCheckpoint {
 export interface WalrusUploadResponse {
   blobId: string;
   uploadedAt: number;
+  endEpoch?: number;
+  expiresAt?: number;
 }
 
 /**
@@ -108,4 +154,48 @@ export interface StoredCertificate {
   savedAt: number;
   tags?: string[];
   notes?: string;
-}
\ No newline at end of file
+}
+/**
+ * Portable proof that a single file belongs to a certified dataset
+ * Verifiable with only the file, this bundle and the dataset certificate
+ */
+export interface DatasetInclusionProof {
+  version: '1.0';
+  type: 'opentruth.inclusion-proof';
+  fileHash: string; // sha256:... of the member file
+  leafHash: string; // Domain-separated Merkle leaf (see lib/merkle.ts)
+  leafIndex: number;
+  siblings: string[]; // Sibling path from leaf to root
+  merkleRoot: string;
+  datasetCertificateBlobId: string;
+  filename?: string;
+  createdAt: number;
+}
+
+/**
+ * Why an author retracted a certificate
+ */
+export type RevocationReason = 'issuedInError' | 'wrongFile' | 'superseded' | 'keyCompromise' | 'other';
+
+/**
+ * Signed statement by a certificate's author that it is no longer valid
+ * Stored on Walrus; its blob ID is recorded against the certificate on Sui
+ */
+export interface RevocationRecord {
+  version: '1.0';
+  type: 'opentruth.revocation';
+  timestamp: number;
+  certificateBlobId: string;
+  artifactHash: string; // artifact.hash of the revoked certificate
+  reason: RevocationReason;
+  details?: string;
+  replacementBlobId?: string; // Certificate that supersedes the revoked one
+
+  author: {
+    suiAddress: string; // Must be the revoked certificate's author
+  };
+
+  proofs: {
+    signature: OpenTruthCertificate['proofs']['signature']; // Over the canonical record without proofs
+  };
+}